@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import type { Server } from "bun";
+import { refreshAdminProfileResponse } from "~/server/admin-api";
+import { listAdminAuditLog } from "~/server/database";
+import * as steam from "~/server/steam";
+
+const STEAM_ID = "76561198000000501";
+const ADMIN_TOKEN = "test-admin-token";
+
+const server = { requestIP: () => null } as unknown as Server<unknown>;
+
+const adminRequest = () =>
+	new Request(`http://localhost/api/admin/profiles/${STEAM_ID}/refresh`, {
+		method: "POST",
+		headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+	});
+
+describe("admin profile refresh", () => {
+	const previousToken = Bun.env.ADMIN_TOKEN;
+
+	beforeEach(() => {
+		Bun.env.ADMIN_TOKEN = ADMIN_TOKEN;
+	});
+
+	afterEach(() => {
+		mock.restore();
+		if (previousToken === undefined) {
+			delete Bun.env.ADMIN_TOKEN;
+		} else {
+			Bun.env.ADMIN_TOKEN = previousToken;
+		}
+	});
+
+	test("answers a private profile with the public route's 403", async () => {
+		spyOn(steam, "forceRefreshPlaytimePayload").mockRejectedValue(
+			new steam.SteamProfilePrivateError("private"),
+		);
+
+		const response = await refreshAdminProfileResponse(adminRequest(), server, STEAM_ID);
+
+		expect(response.status).toBe(403);
+		expect(await response.json()).toMatchObject({
+			code: "profile_private",
+			reason: "private",
+		});
+		const [entry] = await listAdminAuditLog(1);
+		expect(entry).toMatchObject({ action: "profiles.refresh", target: STEAM_ID, status: 403 });
+	});
+
+	test("still reports unexpected failures as a failed action", async () => {
+		spyOn(console, "error").mockImplementation(() => {});
+		spyOn(steam, "forceRefreshPlaytimePayload").mockRejectedValue(new Error("boom"));
+
+		const response = await refreshAdminProfileResponse(adminRequest(), server, STEAM_ID);
+
+		expect(response.status).toBe(500);
+	});
+});
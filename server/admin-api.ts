@@ -0,0 +1,279 @@
+import type { Server } from "bun";
+import { createHash, timingSafeEqual } from "node:crypto";
+import {
+	type CachedPlaytimePayload,
+	listAdminAuditLog,
+	listCachedProfiles,
+	listHiddenProfiles,
+	purgeCachedProfile,
+	rebuildMaterializedAggregates,
+	recordAdminAudit,
+	setProfileHidden,
+} from "~/server/database";
+import { clearLeaderboardSnapshotCache } from "~/server/leaderboard";
+import {
+	forceRefreshPlaytimePayload,
+	invalidateVanityResolution,
+	SteamProfilePrivateError,
+} from "~/server/steam";
+import { getSteamKeyPoolStatus } from "~/server/steam-key-pool";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const steamIdPattern = /^\d{17}$/;
+
+type AdminServer = Server<unknown>;
+
+interface AdminAction {
+	action: string;
+	target?: string | null;
+	perform: () => Promise<Response>;
+}
+
+const noStore = { "Cache-Control": "no-store" };
+
+// Hashing first keeps the comparison constant-time regardless of token length.
+function isAdminRequest(req: Request) {
+	const adminToken = Bun.env.ADMIN_TOKEN?.trim();
+	const header = req.headers.get("Authorization") ?? "";
+	if (!adminToken || !header.startsWith("Bearer ")) {
+		return false;
+	}
+	const digest = (value: string) => createHash("sha256").update(value).digest();
+	return timingSafeEqual(digest(header.slice(7).trim()), digest(adminToken));
+}
+
+// Without ADMIN_TOKEN the admin endpoints do not exist at all.
+function rejectNonAdminRequest(req: Request): Response | null {
+	if (!Bun.env.ADMIN_TOKEN?.trim()) {
+		return new Response("Not Found", { status: 404 });
+	}
+	if (!isAdminRequest(req)) {
+		return Response.json(
+			{ error: "A valid admin token is required." },
+			{ status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+		);
+	}
+	return null;
+}
+
+// Every authorized admin request is written to the audit log with its outcome.
+async function runAdminAction(req: Request, server: AdminServer, action: AdminAction) {
+	const rejection = rejectNonAdminRequest(req);
+	if (rejection) {
+		return rejection;
+	}
+
+	let response: Response;
+	try {
+		response = await action.perform();
+	} catch (error) {
+		console.error(`Admin action "${action.action}" failed`, error);
+		response = Response.json(
+			{ error: "The admin action failed. Check the server logs." },
+			{ status: 500, headers: noStore },
+		);
+	}
+
+	try {
+		await recordAdminAudit({
+			actor: `http ${server.requestIP(req)?.address ?? "unknown"}`,
+			action: action.action,
+			target: action.target ?? null,
+			status: response.status,
+		});
+	} catch (error) {
+		console.error("Failed to write the admin audit log", error);
+	}
+
+	return response;
+}
+
+function parsePageParam(value: string | null, fallback: number, max: number) {
+	if (value === null || value.trim() === "") {
+		return fallback;
+	}
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= 0 && parsed <= max ? parsed : null;
+}
+
+const invalidSteamIdResponse = () =>
+	Response.json({ error: "A 17-digit steam ID is required." }, { status: 400, headers: noStore });
+
+export function listAdminProfilesResponse(req: Request, server: AdminServer) {
+	return runAdminAction(req, server, {
+		action: "profiles.list",
+		perform: async () => {
+			const searchParams = new URL(req.url).searchParams;
+			const limit = parsePageParam(searchParams.get("limit"), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+			const offset = parsePageParam(searchParams.get("offset"), 0, Number.MAX_SAFE_INTEGER);
+			if (limit === null || offset === null) {
+				return Response.json(
+					{ error: `\`limit\` must be 0-${MAX_PAGE_SIZE} and \`offset\` a non-negative whole number.` },
+					{ status: 400, headers: noStore },
+				);
+			}
+			const profiles = await listCachedProfiles(limit, offset);
+			return Response.json({ limit, offset, profiles }, { headers: noStore });
+		},
+	});
+}
+
+export function deleteAdminProfileResponse(req: Request, server: AdminServer, steamID: string) {
+	return runAdminAction(req, server, {
+		action: "profiles.delete",
+		target: steamID,
+		perform: async () => {
+			if (!steamIdPattern.test(steamID)) {
+				return invalidSteamIdResponse();
+			}
+			await purgeCachedProfile(steamID);
+			clearLeaderboardSnapshotCache();
+			return Response.json({ steamID, deleted: true }, { headers: noStore });
+		},
+	});
+}
+
+export function refreshAdminProfileResponse(req: Request, server: AdminServer, steamID: string) {
+	return runAdminAction(req, server, {
+		action: "profiles.refresh",
+		target: steamID,
+		perform: async () => {
+			if (!steamIdPattern.test(steamID)) {
+				return invalidSteamIdResponse();
+			}
+			let payload: CachedPlaytimePayload;
+			try {
+				payload = await forceRefreshPlaytimePayload(steamID);
+			} catch (error) {
+				// Answered as the public refresh route answers it, not as a failed action.
+				if (error instanceof SteamProfilePrivateError) {
+					return Response.json(
+						{
+							error: error.message,
+							code: "profile_private",
+							reason: error.reason,
+							guidance: error.guidance,
+						},
+						{ status: 403, headers: noStore },
+					);
+				}
+				throw error;
+			}
+			return Response.json(
+				{ steamID, gameCount: payload.game_count, fetchedAt: Math.floor(Date.now() / 1000) },
+				{ headers: noStore },
+			);
+		},
+	});
+}
+
+export function rebuildAdminAggregatesResponse(req: Request, server: AdminServer) {
+	return runAdminAction(req, server, {
+		action: "aggregates.rebuild",
+		perform: async () => {
+			const startedAt = performance.now();
+			await rebuildMaterializedAggregates();
+			clearLeaderboardSnapshotCache();
+			return Response.json(
+				{ rebuilt: true, durationMs: Math.round(performance.now() - startedAt) },
+				{ headers: noStore },
+			);
+		},
+	});
+}
+
+export function clearAdminLeaderboardCacheResponse(req: Request, server: AdminServer) {
+	return runAdminAction(req, server, {
+		action: "leaderboard.clear-cache",
+		perform: async () => {
+			clearLeaderboardSnapshotCache();
+			return Response.json({ cleared: true }, { headers: noStore });
+		},
+	});
+}
+
+export function listAdminBlocklistResponse(req: Request, server: AdminServer) {
+	return runAdminAction(req, server, {
+		action: "blocklist.list",
+		perform: async () => {
+			const profiles = await listHiddenProfiles();
+			return Response.json({ profiles }, { headers: noStore });
+		},
+	});
+}
+
+export function updateAdminBlocklistResponse(
+	req: Request,
+	server: AdminServer,
+	steamID: string,
+	blocked: boolean,
+) {
+	return runAdminAction(req, server, {
+		action: blocked ? "blocklist.add" : "blocklist.remove",
+		target: steamID,
+		perform: async () => {
+			if (!steamIdPattern.test(steamID)) {
+				return invalidSteamIdResponse();
+			}
+			await setProfileHidden(steamID, blocked);
+			clearLeaderboardSnapshotCache();
+			return Response.json({ steamID, blocked }, { headers: noStore });
+		},
+	});
+}
+
+export function invalidateAdminVanityResponse(req: Request, server: AdminServer, vanity: string) {
+	return runAdminAction(req, server, {
+		action: "vanity.delete",
+		target: vanity.trim(),
+		perform: async () => {
+			if (!vanity.trim()) {
+				return Response.json(
+					{ error: "A vanity URL is required." },
+					{ status: 400, headers: noStore },
+				);
+			}
+			const removed = await invalidateVanityResolution(vanity);
+			return Response.json({ vanity: vanity.trim(), removed }, { headers: noStore });
+		},
+	});
+}
+
+export function getAdminSteamKeyStatusResponse(req: Request, server: AdminServer) {
+	return runAdminAction(req, server, {
+		action: "steam-keys.status",
+		perform: async () => {
+			const keys = await getSteamKeyPoolStatus();
+			return Response.json(
+				{
+					generatedAt: Math.floor(Date.now() / 1000),
+					healthyCount: keys.filter((key) => key.healthy).length,
+					keys,
+				},
+				{ headers: noStore },
+			);
+		},
+	});
+}
+
+export function listAdminAuditLogResponse(req: Request, server: AdminServer) {
+	return runAdminAction(req, server, {
+		action: "audit.list",
+		perform: async () => {
+			const limit = parsePageParam(
+				new URL(req.url).searchParams.get("limit"),
+				DEFAULT_PAGE_SIZE,
+				MAX_PAGE_SIZE,
+			);
+			if (limit === null) {
+				return Response.json(
+					{ error: `\`limit\` must be 0-${MAX_PAGE_SIZE}.` },
+					{ status: 400, headers: noStore },
+				);
+			}
+			const entries = await listAdminAuditLog(limit);
+			return Response.json({ entries }, { headers: noStore });
+		},
+	});
+}
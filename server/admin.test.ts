@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CacheExport } from "~/server/database";
+import { BACKENDS, runCli, type TestDatabase } from "~/server/test-databases";
+
+const STEAM_ID = "76561198000000001";
+const HIDDEN_ID = "76561198000000002";
+
+function buildExport(): CacheExport {
+	const now = Math.floor(Date.now() / 1000);
+	return {
+		version: 1,
+		exportedAt: now,
+		profiles: [
+			{
+				steamId: STEAM_ID,
+				fetchedAt: now,
+				payload: {
+					game_count: 2,
+					games: [
+						{ appid: 570, name: "Dota 2", playtime_forever: 6000 },
+						{ appid: 730, name: "Counter-Strike 2", playtime_forever: 300 },
+					],
+				},
+			},
+			{
+				steamId: HIDDEN_ID,
+				fetchedAt: now,
+				payload: {
+					game_count: 1,
+					games: [{ appid: 570, name: "Dota 2", playtime_forever: 100 }],
+				},
+			},
+		],
+		vanities: [{ vanity: "Tester", steamId: STEAM_ID, resolvedAt: now }],
+		hiddenProfiles: [{ steamId: HIDDEN_ID, hiddenAt: now }],
+	};
+}
+
+// Runs the admin CLI end to end so every query it makes goes through the
+// database adapter under test.
+describe.each(BACKENDS)("admin CLI on %s", (_, openDatabase) => {
+	let database: TestDatabase;
+	let exportPath: string;
+
+	const admin = (...args: string[]) => runCli(database.cacheUrl, "server/admin.ts", ...args);
+
+	beforeEach(async () => {
+		database = await openDatabase();
+		exportPath = join(tmpdir(), `playtime-export-${crypto.randomUUID()}.json`);
+		await Bun.write(exportPath, JSON.stringify(buildExport()));
+	});
+
+	afterEach(async () => {
+		await database.dispose();
+		await rm(exportPath, { force: true });
+	});
+
+	test("imports an export and reports on it", async () => {
+		const imported = await admin("import", exportPath);
+		expect(imported.stderr).toBe("");
+		expect(imported.exitCode).toBe(0);
+		expect(imported.stdout).toContain(
+			"Imported 2 profiles, 1 vanity mappings and 1 hidden profiles.",
+		);
+
+		const inspect = await admin("inspect", "tester");
+		expect(inspect.exitCode).toBe(0);
+		expect(JSON.parse(inspect.stdout)).toMatchObject({
+			steamId: STEAM_ID,
+			payload: { game_count: 2 },
+			metrics: { gameCount: 2, totalMinutes: 6300 },
+			vanities: ["tester"],
+			hidden: false,
+		});
+
+		const stats = await admin("stats");
+		expect(stats.exitCode).toBe(0);
+		expect(stats.stdout).toMatch(/Database size: \d+(\.\d)? (B|KB|MB)\n/);
+
+		const hidden = await admin("hidden");
+		expect(hidden.stdout).toContain(HIDDEN_ID);
+	});
+
+	test("exports what it imported and purges a profile", async () => {
+		expect((await admin("import", exportPath)).exitCode).toBe(0);
+
+		const exported = await admin("export");
+		expect(exported.exitCode).toBe(0);
+		const data = JSON.parse(exported.stdout) as CacheExport;
+		expect(data.profiles.map((profile) => profile.steamId).sort()).toEqual([
+			STEAM_ID,
+			HIDDEN_ID,
+		]);
+		expect(data.vanities).toEqual([
+			{ vanity: "tester", steamId: STEAM_ID, resolvedAt: expect.any(Number) },
+		]);
+
+		const purge = await admin("purge", STEAM_ID);
+		expect(purge.exitCode).toBe(0);
+		const inspect = await admin("inspect", STEAM_ID);
+		expect(JSON.parse(inspect.stdout)).toMatchObject({
+			fetchedAt: "-",
+			payload: null,
+			metrics: null,
+			vanities: [],
+		});
+	});
+});
@@ -0,0 +1,243 @@
+import {
+	type CacheExport,
+	deleteCachedVanityResolution,
+	exportCache,
+	getCachedProfileDetails,
+	getCachedVanityResolution,
+	getCacheStats,
+	importCache,
+	listCachedProfiles,
+	listHiddenProfiles,
+	purgeCachedProfile,
+	rebuildMaterializedAggregates,
+	recordAdminAudit,
+	setProfileHidden,
+} from "~/server/database";
+
+const steamIdPattern = /^\d{17}$/;
+
+const USAGE = `Usage: bun server/admin.ts <command> [arguments]
+
+Commands:
+  list [--limit N] [--offset N]   List cached profiles, most recently fetched first
+  inspect <steam-id|vanity>       Show everything cached for a profile
+  purge <steam-id|vanity>         Delete a profile's cached data, or a vanity mapping
+  rebuild                         Rebuild the leaderboard tables from the playtime cache
+  hide <steam-id>                 Hide a profile from the leaderboards
+  unhide <steam-id>               Show a hidden profile on the leaderboards again
+  hidden                          List hidden profiles
+  stats                           Show row counts and database size
+  export [file]                   Export the cache as JSON (stdout by default)
+  import <file>                   Import a JSON export`;
+
+class AdminUsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "AdminUsageError";
+	}
+}
+
+function readFlag(args: string[], name: string, fallback: number) {
+	const index = args.indexOf(`--${name}`);
+	if (index === -1) {
+		return fallback;
+	}
+	const value = Number(args[index + 1]);
+	if (!Number.isInteger(value) || value < 0) {
+		throw new AdminUsageError(`--${name} must be a non-negative whole number.`);
+	}
+	return value;
+}
+
+function requireArgument(args: string[], label: string) {
+	const value = args[0]?.trim();
+	if (!value) {
+		throw new AdminUsageError(`Missing ${label}.`);
+	}
+	return value;
+}
+
+function requireSteamId(args: string[]) {
+	const steamId = requireArgument(args, "steam ID");
+	if (!steamIdPattern.test(steamId)) {
+		throw new AdminUsageError(`"${steamId}" is not a 17-digit steam ID.`);
+	}
+	return steamId;
+}
+
+const formatTimestamp = (seconds: number | null) =>
+	seconds === null ? "-" : new Date(seconds * 1000).toISOString();
+
+const formatBytes = (bytes: number) => {
+	const units = ["B", "KB", "MB", "GB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+// Changes made from the CLI land in the same audit log as the admin HTTP API.
+const auditCliAction = (action: string, target: string | null = null) =>
+	recordAdminAudit({ actor: "cli", action, target, status: null });
+
+async function resolveSteamIdArgument(identifier: string) {
+	if (steamIdPattern.test(identifier)) {
+		return identifier;
+	}
+	const cached = await getCachedVanityResolution(identifier);
+	if (!cached) {
+		throw new AdminUsageError(`No cached vanity resolution for "${identifier}".`);
+	}
+	return cached.steamId;
+}
+
+async function runCommand(command: string | undefined, args: string[]) {
+	switch (command) {
+		case "list": {
+			const limit = readFlag(args, "limit", 50);
+			const offset = readFlag(args, "offset", 0);
+			const profiles = await listCachedProfiles(limit, offset);
+			if (!profiles.length) {
+				console.log("No cached profiles.");
+				return;
+			}
+			console.table(
+				profiles.map((profile) => ({
+					steamId: profile.steamId,
+					fetchedAt: formatTimestamp(profile.fetchedAt),
+					games: profile.gameCount,
+					hours: Math.round(profile.totalMinutes / 60),
+					hidden: profile.hidden ? "yes" : "",
+				})),
+			);
+			return;
+		}
+		case "inspect": {
+			const steamId = await resolveSteamIdArgument(requireArgument(args, "steam ID or vanity"));
+			const details = await getCachedProfileDetails(steamId);
+			console.log(
+				JSON.stringify(
+					{
+						...details,
+						fetchedAt: formatTimestamp(details.fetchedAt),
+						payload: details.payload
+							? { game_count: details.payload.game_count }
+							: null,
+					},
+					null,
+					2,
+				),
+			);
+			return;
+		}
+		case "purge": {
+			const identifier = requireArgument(args, "steam ID or vanity");
+			if (steamIdPattern.test(identifier)) {
+				await purgeCachedProfile(identifier);
+				await auditCliAction("profiles.delete", identifier);
+				console.log(`Purged cached data for ${identifier}.`);
+				return;
+			}
+			const removed = await deleteCachedVanityResolution(identifier);
+			await auditCliAction("vanity.delete", identifier);
+			console.log(
+				removed
+					? `Removed the cached vanity resolution for "${identifier}".`
+					: `Nothing cached for vanity "${identifier}".`,
+			);
+			return;
+		}
+		case "rebuild": {
+			const startedAt = performance.now();
+			await rebuildMaterializedAggregates();
+			await auditCliAction("aggregates.rebuild");
+			console.log(
+				`Rebuilt leaderboard tables in ${Math.round(performance.now() - startedAt)}ms.`,
+			);
+			return;
+		}
+		case "hide":
+		case "unhide": {
+			const steamId = requireSteamId(args);
+			await setProfileHidden(steamId, command === "hide");
+			await auditCliAction(command === "hide" ? "blocklist.add" : "blocklist.remove", steamId);
+			console.log(
+				command === "hide"
+					? `${steamId} is now hidden from the leaderboards.`
+					: `${steamId} is visible on the leaderboards again.`,
+			);
+			return;
+		}
+		case "hidden": {
+			const hidden = await listHiddenProfiles();
+			if (!hidden.length) {
+				console.log("No hidden profiles.");
+				return;
+			}
+			console.table(
+				hidden.map((entry) => ({
+					steamId: entry.steamId,
+					hiddenAt: formatTimestamp(entry.hiddenAt),
+				})),
+			);
+			return;
+		}
+		case "stats": {
+			const stats = await getCacheStats();
+			console.table(stats.tables);
+			console.log(`Expired profiles: ${stats.expiredProfiles}`);
+			console.log(`Database size: ${formatBytes(stats.databaseBytes)}`);
+			return;
+		}
+		case "export": {
+			const serialized = JSON.stringify(await exportCache());
+			const target = args[0]?.trim();
+			if (!target) {
+				process.stdout.write(`${serialized}\n`);
+				return;
+			}
+			await Bun.write(target, serialized);
+			console.log(`Wrote cache export to ${target}.`);
+			return;
+		}
+		case "import": {
+			const source = requireArgument(args, "file to import");
+			const file = Bun.file(source);
+			if (!(await file.exists())) {
+				throw new AdminUsageError(`File not found: ${source}`);
+			}
+			const result = await importCache((await file.json()) as CacheExport);
+			await auditCliAction("cache.import", source);
+			console.log(
+				`Imported ${result.profiles} profiles, ${result.vanities} vanity mappings and ${result.hiddenProfiles} hidden profiles.`,
+			);
+			return;
+		}
+		default:
+			throw new AdminUsageError(
+				command ? `Unknown command "${command}".` : "No command given.",
+			);
+	}
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === "help" || command === "--help" || command === "-h") {
+	console.log(USAGE);
+	process.exit(0);
+}
+
+try {
+	await runCommand(command, args);
+	process.exit(0);
+} catch (error) {
+	if (error instanceof AdminUsageError) {
+		console.error(`${error.message}\n\n${USAGE}`);
+		process.exit(2);
+	}
+	console.error(error);
+	process.exit(1);
+}
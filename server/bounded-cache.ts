@@ -0,0 +1,13 @@
+// Map iteration follows insertion order, so re-inserting keeps the most
+// recently written entries and the first key is always the oldest.
+export function setBounded<K, V>(map: Map<K, V>, key: K, value: V, maxEntries: number) {
+	map.delete(key);
+	map.set(key, value);
+	while (map.size > maxEntries) {
+		const oldestKey = map.keys().next().value;
+		if (oldestKey === undefined) {
+			break;
+		}
+		map.delete(oldestKey);
+	}
+}
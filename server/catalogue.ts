@@ -0,0 +1,69 @@
+import {
+	listGameCatalogue,
+	type GameCatalogueSort,
+} from "~/server/database";
+import { headerArtUrl } from "~/server/steam-urls";
+
+export const GAME_CATALOGUE_SORTS: readonly GameCatalogueSort[] = [
+	"total",
+	"owners",
+	"average",
+];
+export const DEFAULT_GAME_CATALOGUE_LIMIT = 50;
+export const MAX_GAME_CATALOGUE_LIMIT = 100;
+
+export interface GameCatalogueEntry {
+	appid: number;
+	name: string;
+	href: string;
+	headerImageUrl: string;
+	totalMinutes: number;
+	ownerCount: number;
+	averageMinutes: number;
+}
+
+export interface GameCataloguePage {
+	generatedAt: number;
+	query: string;
+	sort: GameCatalogueSort;
+	offset: number;
+	limit: number;
+	total: number;
+	games: GameCatalogueEntry[];
+}
+
+export interface GameCatalogueRequest {
+	query: string;
+	sort: GameCatalogueSort;
+	offset: number;
+	limit: number;
+}
+
+export async function getGameCataloguePage(
+	request: GameCatalogueRequest,
+): Promise<GameCataloguePage> {
+	const { total, rows } = await listGameCatalogue({
+		search: request.query,
+		sort: request.sort,
+		offset: request.offset,
+		limit: request.limit,
+	});
+
+	return {
+		generatedAt: Math.floor(Date.now() / 1000),
+		query: request.query,
+		sort: request.sort,
+		offset: request.offset,
+		limit: request.limit,
+		total,
+		games: rows.map((row) => ({
+			appid: row.appid,
+			name: row.name || `App ${row.appid}`,
+			href: `/games/${row.appid}`,
+			headerImageUrl: headerArtUrl(row.appid),
+			totalMinutes: row.totalMinutes,
+			ownerCount: row.ownerCount,
+			averageMinutes: row.averageMinutes,
+		})),
+	};
+}
@@ -0,0 +1,136 @@
+import type { CachedPlaytimePayload } from "~/server/database";
+
+export interface ComparedProfile {
+	steamID: string;
+	resolvedFrom?: string;
+	gameCount: number;
+	totalMinutes: number;
+}
+
+export interface SharedGame {
+	appid: number;
+	name: string;
+	aMinutes: number;
+	bMinutes: number;
+}
+
+export interface ExclusiveGame {
+	appid: number;
+	name: string;
+	minutes: number;
+}
+
+export interface LibraryComparison {
+	a: ComparedProfile;
+	b: ComparedProfile;
+	sharedGames: SharedGame[];
+	onlyA: ExclusiveGame[];
+	onlyB: ExclusiveGame[];
+	totals: {
+		aMinutes: number;
+		bMinutes: number;
+		differenceMinutes: number;
+	};
+	overlapScore: number;
+	playtimeOverlapScore: number;
+}
+
+export interface ComparisonSide {
+	steamID: string;
+	resolvedFrom?: string;
+	payload: CachedPlaytimePayload;
+}
+
+function indexGames(payload: CachedPlaytimePayload) {
+	const games = new Map<number, ExclusiveGame>();
+	for (const game of payload.games) {
+		const minutes = Math.max(0, Math.trunc(Number(game.playtime_forever) || 0));
+		if (typeof game.appid !== "number" || !minutes) {
+			continue;
+		}
+		games.set(game.appid, {
+			appid: game.appid,
+			name: (game.name ?? "").trim() || `App ${game.appid}`,
+			minutes,
+		});
+	}
+	return games;
+}
+
+const byMinutesDescending = (a: ExclusiveGame, b: ExclusiveGame) =>
+	b.minutes - a.minutes || a.appid - b.appid;
+
+export function compareLibraries(
+	a: ComparisonSide,
+	b: ComparisonSide,
+): LibraryComparison {
+	const gamesA = indexGames(a.payload);
+	const gamesB = indexGames(b.payload);
+
+	const sharedGames: SharedGame[] = [];
+	const onlyA: ExclusiveGame[] = [];
+	let sharedMinimumMinutes = 0;
+	let sharedMaximumMinutes = 0;
+
+	for (const game of gamesA.values()) {
+		const counterpart = gamesB.get(game.appid);
+		if (!counterpart) {
+			onlyA.push(game);
+			continue;
+		}
+		sharedGames.push({
+			appid: game.appid,
+			name: game.name,
+			aMinutes: game.minutes,
+			bMinutes: counterpart.minutes,
+		});
+		sharedMinimumMinutes += Math.min(game.minutes, counterpart.minutes);
+		sharedMaximumMinutes += Math.max(game.minutes, counterpart.minutes);
+	}
+
+	const onlyB = [...gamesB.values()].filter((game) => !gamesA.has(game.appid));
+
+	const sumMinutes = (games: Iterable<ExclusiveGame>) => {
+		let total = 0;
+		for (const game of games) {
+			total += game.minutes;
+		}
+		return total;
+	};
+
+	const aMinutes = sumMinutes(gamesA.values());
+	const bMinutes = sumMinutes(gamesB.values());
+	const unionCount = gamesA.size + gamesB.size - sharedGames.length;
+	// Hours spent on games only one side owns count fully against the overlap.
+	const unsharedMinutes = sumMinutes(onlyA) + sumMinutes(onlyB);
+	const playtimeDenominator = sharedMaximumMinutes + unsharedMinutes;
+
+	return {
+		a: {
+			steamID: a.steamID,
+			resolvedFrom: a.resolvedFrom,
+			gameCount: gamesA.size,
+			totalMinutes: aMinutes,
+		},
+		b: {
+			steamID: b.steamID,
+			resolvedFrom: b.resolvedFrom,
+			gameCount: gamesB.size,
+			totalMinutes: bMinutes,
+		},
+		sharedGames: sharedGames.sort(
+			(x, y) =>
+				y.aMinutes + y.bMinutes - (x.aMinutes + x.bMinutes) || x.appid - y.appid,
+		),
+		onlyA: onlyA.sort(byMinutesDescending),
+		onlyB: onlyB.sort(byMinutesDescending),
+		totals: {
+			aMinutes,
+			bMinutes,
+			differenceMinutes: aMinutes - bMinutes,
+		},
+		overlapScore: unionCount > 0 ? sharedGames.length / unionCount : 0,
+		playtimeOverlapScore:
+			playtimeDenominator > 0 ? sharedMinimumMinutes / playtimeDenominator : 0,
+	};
+}
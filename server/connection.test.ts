@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { NestedQueryError, sql, transaction } from "~/server/connection";
+
+// test-setup.ts points STEAM_CACHE_URL at an in-memory SQLite database.
+describe("SQLite connection", () => {
+	test("rejects `sql` inside a transaction instead of deadlocking", async () => {
+		const attempt = transaction(async () => {
+			await sql`SELECT 1`;
+		});
+
+		await expect(attempt).rejects.toBeInstanceOf(NestedQueryError);
+	});
+
+	test("runs queries issued during a transaction after it, outside it", async () => {
+		await sql`CREATE TABLE IF NOT EXISTS connection_test (value INTEGER NOT NULL)`;
+		let release = () => {};
+		const held = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+
+		const rolledBack = transaction(async (tx) => {
+			await tx`INSERT INTO connection_test (value) VALUES (1)`;
+			await held;
+			throw new Error("roll back");
+		});
+		const outside = sql`INSERT INTO connection_test (value) VALUES (2)`.then(() => "done");
+		release();
+
+		await expect(rolledBack).rejects.toThrow("roll back");
+		expect(await outside).toBe("done");
+		const rows = await sql`SELECT value FROM connection_test`;
+		expect([...rows]).toEqual([{ value: 2 }]);
+	});
+
+	test("still lets a transaction start work that queries once it has ended", async () => {
+		let followUp: Promise<unknown> = Promise.resolve();
+		await transaction(async () => {
+			followUp = Bun.sleep(0).then(() => sql`SELECT 1 AS one`);
+		});
+
+		expect([...((await followUp) as unknown[])]).toEqual([{ one: 1 }]);
+	});
+});
@@ -0,0 +1,98 @@
+import { SQL, type TransactionSQL } from "bun";
+import { AsyncLocalStorage } from "node:async_hooks";
+
+const DEFAULT_CACHE_URL = "sqlite://./steam-cache.db";
+const cacheUrl = Bun.env.STEAM_CACHE_URL ?? DEFAULT_CACHE_URL;
+
+const client =
+	cacheUrl === ":memory:" || cacheUrl.includes("://")
+		? new SQL(cacheUrl)
+		: new SQL(cacheUrl, { adapter: "sqlite" });
+
+// SQLite and Postgres are both supported; the few places where their SQL
+// differs branch on this.
+export const isPostgres = client.options.adapter === "postgres";
+if (!isPostgres && client.options.adapter !== "sqlite") {
+	throw new Error(
+		`Unsupported STEAM_CACHE_URL adapter "${client.options.adapter}". Use a SQLite path or a postgres:// URL.`,
+	);
+}
+
+export class NestedQueryError extends Error {
+	constructor() {
+		super(
+			"A query used `sql` inside a transaction() callback. Use the callback's `tx` instead; on SQLite `sql` would wait for the transaction to end and never run.",
+		);
+		this.name = "NestedQueryError";
+	}
+}
+
+// Runs one task at a time, in the order they were queued.
+class Mutex {
+	private tail: Promise<unknown> = Promise.resolve();
+
+	run<T>(task: () => PromiseLike<T>): Promise<T> {
+		const result = this.tail.then(task);
+		this.tail = result.catch(() => undefined);
+		return result;
+	}
+}
+
+// SQLite has a single connection, so a statement issued while another request
+// has a transaction open would run inside that transaction (and be rolled back
+// with it), and overlapping `begin` calls fail outright. Every SQLite query and
+// transaction therefore holds this lock while it runs.
+const sqliteLock = new Mutex();
+
+// Set while a SQLite transaction callback runs, so `sql` can tell it is being
+// called from inside one.
+const openTransaction = new AsyncLocalStorage<{ open: boolean }>();
+
+// Queries only run once awaited, so the lock is taken in `then`. Anything that
+// is not a query (`sql(ids)` and other helpers) passes through.
+function runUnderLock<Q>(query: Q): Q {
+	if (!(query instanceof Promise)) {
+		return query;
+	}
+	const run = query.then.bind(query);
+	let locked: Promise<unknown> | undefined;
+	query.then = (onFulfilled, onRejected) => {
+		locked ??= openTransaction.getStore()?.open
+			? Promise.reject(new NestedQueryError())
+			: sqliteLock.run(() => new Promise((resolve, reject) => run(resolve, reject)));
+		return locked.then(onFulfilled, onRejected);
+	};
+	query.catch = (onRejected) => query.then(undefined, onRejected);
+	query.finally = (onFinally) => Promise.prototype.finally.call(query, onFinally);
+	return query;
+}
+
+export const sql: SQL = isPostgres
+	? client
+	: new Proxy(client, {
+		apply: (target, thisArg, args) => runUnderLock(Reflect.apply(target, thisArg, args)),
+	});
+
+if (!isPostgres) {
+	await sql`PRAGMA journal_mode = WAL`;
+}
+
+// Inside `fn`, run every query through `tx`, never `sql`. On SQLite the
+// transaction holds the lock that `sql` queries wait for, so such a query
+// would never run; it is rejected with a NestedQueryError instead. On Postgres
+// it would run outside the transaction on another connection.
+export function transaction<T>(fn: (tx: TransactionSQL) => Promise<T>): Promise<T> {
+	if (isPostgres) {
+		return client.begin(fn) as Promise<T>;
+	}
+	return sqliteLock.run(() =>
+		client.begin(async (tx) => {
+			const state = { open: true };
+			try {
+				return await openTransaction.run(state, () => fn(tx));
+			} finally {
+				state.open = false;
+			}
+		}) as Promise<T>,
+	);
+}
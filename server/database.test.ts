@@ -0,0 +1,129 @@
+import { beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import {
+	cachePlayerSummary,
+	cachePlaytimePayload,
+	getCachedPlayerSummaries,
+	listPlaytimeMetricsPage,
+	setProfileHidden,
+	type LeaderboardMetric,
+	type ProfileVisibility,
+} from "~/server/database";
+import type { SteamGame } from "~/server/steam";
+
+// Each profile leads at least one metric; they were fetched 10 seconds apart,
+// in this order.
+const PROFILES: Record<string, SteamGame[]> = {
+	// 3 games, 9660 minutes, one game over 100 hours, 3000 Linux minutes.
+	"76561198000000101": [
+		{ appid: 570, name: "Dota 2", playtime_forever: 9000, playtime_linux_forever: 3000 },
+		{ appid: 730, name: "Counter-Strike 2", playtime_forever: 600 },
+		{ appid: 440, name: "Team Fortress 2", playtime_forever: 60 },
+	],
+	// 2 games, 2000 minutes, half of it in the top game.
+	"76561198000000102": [
+		{ appid: 570, name: "Dota 2", playtime_forever: 1000 },
+		{ appid: 730, name: "Counter-Strike 2", playtime_forever: 1000 },
+	],
+	// 1 game, 7000 minutes, all of it on Linux.
+	"76561198000000103": [
+		{ appid: 440, name: "Team Fortress 2", playtime_forever: 7000, playtime_linux_forever: 7000 },
+	],
+	// 4 games, 400 minutes.
+	"76561198000000104": [
+		{ appid: 570, name: "Dota 2", playtime_forever: 100 },
+		{ appid: 730, name: "Counter-Strike 2", playtime_forever: 100 },
+		{ appid: 440, name: "Team Fortress 2", playtime_forever: 100 },
+		{ appid: 620, name: "Portal 2", playtime_forever: 100 },
+	],
+	// Would top every metric, but is hidden from the leaderboard.
+	"76561198000000105": [
+		{ appid: 570, name: "Dota 2", playtime_forever: 90000, playtime_linux_forever: 90000 },
+		{ appid: 730, name: "Counter-Strike 2", playtime_forever: 90000 },
+		{ appid: 440, name: "Team Fortress 2", playtime_forever: 90000 },
+		{ appid: 620, name: "Portal 2", playtime_forever: 90000 },
+		{ appid: 400, name: "Portal", playtime_forever: 90000 },
+	],
+};
+const HIDDEN_ID = "76561198000000105";
+
+async function rankedIds(metric: LeaderboardMetric, page = { offset: 0, limit: 25, minGames: 0 }) {
+	const { total, rows } = await listPlaytimeMetricsPage({ metric, ...page });
+	return { total, ids: rows.map((row) => row.steamId.slice(-3)) };
+}
+
+describe("listPlaytimeMetricsPage", () => {
+	beforeAll(async () => {
+		let clock = Math.floor(Date.now() / 1000) * 1000;
+		for (const [steamId, games] of Object.entries(PROFILES)) {
+			setSystemTime(clock);
+			await cachePlaytimePayload(steamId, { game_count: games.length, games });
+			clock += 10 * 1000;
+		}
+		setSystemTime();
+		await setProfileHidden(HIDDEN_ID, true);
+	});
+
+	test.each<[LeaderboardMetric, string[]]>([
+		["game_count", ["104", "101", "102", "103"]],
+		["total_playtime", ["101", "103", "102", "104"]],
+		["average_playtime", ["103", "101", "102", "104"]],
+		["top_game_share", ["103", "101", "102", "104"]],
+		["recently_updated", ["104", "103", "102", "101"]],
+	])("ranks every visible profile by %s", async (metric, expected) => {
+		expect(await rankedIds(metric)).toEqual({ total: 4, ids: expected });
+	});
+
+	test("leaves out profiles with nothing to rank for Linux and 100-hour metrics", async () => {
+		expect(await rankedIds("linux_playtime")).toEqual({ total: 2, ids: ["103", "101"] });
+		expect(await rankedIds("games_over_100h")).toEqual({ total: 2, ids: ["101", "103"] });
+	});
+
+	test("pages with offset and limit while reporting the full total", async () => {
+		expect(
+			await rankedIds("total_playtime", { offset: 1, limit: 2, minGames: 0 }),
+		).toEqual({ total: 4, ids: ["103", "102"] });
+		expect(
+			await rankedIds("total_playtime", { offset: 4, limit: 2, minGames: 0 }),
+		).toEqual({ total: 4, ids: [] });
+	});
+
+	test("applies minGames to both the rows and the total", async () => {
+		expect(
+			await rankedIds("total_playtime", { offset: 0, limit: 25, minGames: 3 }),
+		).toEqual({ total: 2, ids: ["101", "104"] });
+	});
+
+	test("returns the stored summary for each row", async () => {
+		const { rows } = await listPlaytimeMetricsPage({
+			metric: "games_over_100h",
+			offset: 0,
+			limit: 1,
+			minGames: 0,
+		});
+		expect(rows[0]).toMatchObject({
+			steamId: "76561198000000101",
+			gameCount: 3,
+			totalMinutes: 9660,
+			averageMinutes: 3220,
+			linuxMinutes: 3000,
+			gamesOver100Hours: 1,
+			topGame: { appid: 570, name: "Dota 2", minutes: 9000 },
+		});
+	});
+});
+
+describe("getCachedPlayerSummaries", () => {
+	// Steam only ever reports 1 or 3 to other keys, but any state other than
+	// public must read as private.
+	test.each<[number, ProfileVisibility]>([
+		[3, "public"],
+		[2, "private"],
+		[1, "private"],
+		[0, "private"],
+	])("maps communityvisibilitystate %d to %s", async (state, expected) => {
+		const steamId = `7656119800000020${state}`;
+		await cachePlayerSummary(steamId, "Player", null, state);
+		const summaries = await getCachedPlayerSummaries([steamId]);
+		expect(summaries.get(steamId)?.profileVisibility).toBe(expected);
+	});
+});
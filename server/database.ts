@@ -1,62 +1,19 @@
-import { SQL } from "bun";
+import type { SQL } from "bun";
+import { isPostgres, sql, transaction } from "~/server/connection";
+import { runMigrations } from "~/server/migrations";
 import type { SteamGame } from "~/server/steam";
 
-const DEFAULT_CACHE_URL = "sqlite://./steam-cache.db";
-const cacheUrl = Bun.env.STEAM_CACHE_URL ?? DEFAULT_CACHE_URL;
-
-const sql =
-	cacheUrl === ":memory:" || cacheUrl.includes("://")
-		? new SQL(cacheUrl)
-		: new SQL(cacheUrl, { adapter: "sqlite" });
-
 export const PLAYTIME_TTL_SECONDS = 60 * 60 * 24;
+export const VANITY_TTL_SECONDS = 60 * 60 * 24 * 7;
+export const VANITY_MISS_TTL_SECONDS = 60 * 10;
 export const MANUAL_REFRESH_COOLDOWN_SECONDS = 60 * 60;
+export const PLAYTIME_HISTORY_RETENTION_SECONDS = 60 * 60 * 24 * 365;
+export const HEADER_ART_TTL_SECONDS = 60 * 60 * 24 * 7;
+export const FRIEND_LIST_TTL_SECONDS = 60 * 60 * 12;
+export const PLAYER_SUMMARY_TTL_SECONDS = 60 * 60 * 24;
+export const PRIVATE_PROFILE_TTL_SECONDS = 60 * 30;
 
-await sql`PRAGMA journal_mode = WAL`;
-
-await sql`
-	CREATE TABLE IF NOT EXISTS vanity_cache (
-		vanity TEXT PRIMARY KEY,
-		steam_id TEXT NOT NULL,
-		create_time INTEGER NOT NULL
-	)
-`;
-
-await sql`
-	CREATE TABLE IF NOT EXISTS playtime_cache (
-		steam_id TEXT PRIMARY KEY,
-		payload TEXT NOT NULL,
-		fetched_at INTEGER NOT NULL
-	)
-`;
-
-await sql`
-	CREATE TABLE IF NOT EXISTS playtime_metrics (
-		steam_id TEXT PRIMARY KEY,
-		fetched_at INTEGER NOT NULL,
-		game_count INTEGER NOT NULL,
-		total_minutes INTEGER NOT NULL,
-		average_minutes REAL NOT NULL,
-		top_game_appid INTEGER,
-		top_game_name TEXT,
-		top_game_minutes INTEGER
-	)
-`;
-
-await sql`
-	CREATE TABLE IF NOT EXISTS game_playtime_totals (
-		appid INTEGER PRIMARY KEY,
-		name TEXT,
-		total_minutes INTEGER NOT NULL
-	)
-`;
-
-await sql`
-	CREATE TABLE IF NOT EXISTS playtime_refresh_locks (
-		steam_id TEXT PRIMARY KEY,
-		requested_at INTEGER NOT NULL
-	)
-`;
+await runMigrations();
 
 const nowSeconds = () => Math.floor(Date.now() / 1000);
 
@@ -64,14 +21,18 @@ const normalizeVanity = (value: string) => value.trim().toLowerCase();
 
 interface PlaytimeCacheRow {
 	steam_id: string;
-	payload: string;
 	fetched_at: number;
 }
 
-type PlaytimeRowStatus = "ok" | "expired" | "empty" | "invalid";
+// Keeps bulk statements well below SQLite's and Postgres' bound-parameter limits.
+const BULK_CHUNK_SIZE = 500;
 
-interface ParseOptions {
-	allowExpired?: boolean;
+function chunked<T>(items: T[], size = BULK_CHUNK_SIZE): T[][] {
+	const chunks: T[][] = [];
+	for (let index = 0; index < items.length; index += size) {
+		chunks.push(items.slice(index, index + size));
+	}
+	return chunks;
 }
 
 function coerceNumber(value: number | string | bigint | null | undefined): number {
@@ -88,29 +49,8 @@ function coerceNumber(value: number | string | bigint | null | undefined): numbe
 	return 0;
 }
 
-function parseCachedPlaytimeRow(
-	row: PlaytimeCacheRow,
-	options?: ParseOptions,
-): { status: PlaytimeRowStatus; payload: CachedPlaytimePayload | null } {
-	const allowExpired = options?.allowExpired ?? false;
-	const ageSeconds = nowSeconds() - row.fetched_at;
-	if (!allowExpired && ageSeconds > PLAYTIME_TTL_SECONDS) {
-		return { status: "expired", payload: null };
-	}
-
-	try {
-		const payload = JSON.parse(row.payload) as CachedPlaytimePayload;
-
-		if (!payload.game_count) {
-			return { status: "empty", payload: null };
-		}
-
-		return { status: "ok", payload };
-	} catch (error) {
-		console.error("Failed to parse cached playtime payload", error);
-		return { status: "invalid", payload: null };
-	}
-}
+const isPlaytimeRowExpired = (row: PlaytimeCacheRow) =>
+	nowSeconds() - coerceNumber(row.fetched_at) > PLAYTIME_TTL_SECONDS;
 
 function sanitizeAppId(value: unknown): number | null {
 	if (typeof value === "number" && Number.isFinite(value) && value > 0) {
@@ -138,6 +78,9 @@ export interface PlaytimeSummary {
 	gameCount: number;
 	totalMinutes: number;
 	averageMinutes: number;
+	// Steam counts Steam Deck sessions as Linux playtime as well.
+	linuxMinutes: number;
+	gamesOver100Hours: number;
 	topGame?: {
 		appid: number;
 		name: string;
@@ -150,8 +93,12 @@ export interface PlaytimeMetricsRow extends PlaytimeSummary {
 	fetchedAt: number;
 }
 
+const HUNDRED_HOURS_IN_MINUTES = 100 * 60;
+
 function summarizePayload(payload: CachedPlaytimePayload): PlaytimeSummary {
 	let totalMinutes = 0;
+	let linuxMinutes = 0;
+	let gamesOver100Hours = 0;
 	let topGame: SteamGame | null = null;
 
 	for (const game of payload.games) {
@@ -159,6 +106,10 @@ function summarizePayload(payload: CachedPlaytimePayload): PlaytimeSummary {
 		if (minutes > 0) {
 			totalMinutes += minutes;
 		}
+		if (minutes > HUNDRED_HOURS_IN_MINUTES) {
+			gamesOver100Hours++;
+		}
+		linuxMinutes += normalizeMinutes(game.playtime_linux_forever);
 
 		if (!topGame) {
 			topGame = game;
@@ -199,6 +150,8 @@ function summarizePayload(payload: CachedPlaytimePayload): PlaytimeSummary {
 		gameCount: payload.game_count,
 		totalMinutes,
 		averageMinutes,
+		linuxMinutes,
+		gamesOver100Hours,
 		topGame: sanitizedTopGame,
 	};
 }
@@ -211,11 +164,13 @@ interface GameMinutesEntry {
 
 function extractGameMinutes(payload: CachedPlaytimePayload): GameMinutesEntry[] {
 	const result: GameMinutesEntry[] = [];
+	const seen = new Set<number>();
 	for (const game of payload.games) {
 		const appid = sanitizeAppId(game.appid);
-		if (!appid) {
+		if (!appid || seen.has(appid)) {
 			continue;
 		}
+		seen.add(appid);
 		const minutes = normalizeMinutes(game.playtime_forever);
 		if (!minutes) {
 			continue;
@@ -230,28 +185,161 @@ function extractGameMinutes(payload: CachedPlaytimePayload): GameMinutesEntry[]
 	return result;
 }
 
-async function adjustGameTotals(entries: GameMinutesEntry[], multiplier: 1 | -1) {
-	for (const entry of entries) {
-		const delta = entry.minutes * multiplier;
-		if (!delta) {
+const OWNED_GAME_COLUMNS = [
+	"steam_id",
+	"appid",
+	"name",
+	"minutes",
+	"recent_minutes",
+	"windows_minutes",
+	"mac_minutes",
+	"linux_minutes",
+	"deck_minutes",
+	"last_played",
+] as const;
+
+type OwnedGameRow = Record<(typeof OWNED_GAME_COLUMNS)[number], string | number | null>;
+
+function toOwnedGameRows(steamId: string, games: SteamGame[]): OwnedGameRow[] {
+	const rows = new Map<number, OwnedGameRow>();
+	for (const game of games) {
+		const appid = sanitizeAppId(game.appid);
+		if (!appid || rows.has(appid)) {
 			continue;
 		}
-		const nameValue = multiplier > 0 ? entry.name : "";
-		await sql`
-			INSERT INTO game_playtime_totals (appid, name, total_minutes)
-			VALUES (${entry.appid}, ${nameValue}, ${delta})
+		const lastPlayed = normalizeMinutes(game.rtime_last_played);
+		rows.set(appid, {
+			steam_id: steamId,
+			appid,
+			name: (game.name ?? "").trim(),
+			minutes: normalizeMinutes(game.playtime_forever),
+			recent_minutes: normalizeMinutes(game.playtime_2weeks),
+			windows_minutes: normalizeMinutes(game.playtime_windows_forever),
+			mac_minutes: normalizeMinutes(game.playtime_mac_forever),
+			linux_minutes: normalizeMinutes(game.playtime_linux_forever),
+			deck_minutes: normalizeMinutes(game.playtime_deck_forever),
+			last_played: lastPlayed || null,
+		});
+	}
+	return [...rows.values()];
+}
+
+// Rebuilds a game the way Steam reports it, leaving out the fields Steam
+// omits when they are empty.
+function toSteamGame(row: any): SteamGame {
+	const game: SteamGame = {
+		appid: coerceNumber(row.appid),
+		playtime_forever: coerceNumber(row.minutes),
+		playtime_windows_forever: coerceNumber(row.windows_minutes),
+		playtime_mac_forever: coerceNumber(row.mac_minutes),
+		playtime_linux_forever: coerceNumber(row.linux_minutes),
+		playtime_deck_forever: coerceNumber(row.deck_minutes),
+	};
+	if (typeof row.name === "string" && row.name) {
+		game.name = row.name;
+	}
+	const recentMinutes = coerceNumber(row.recent_minutes);
+	if (recentMinutes) {
+		game.playtime_2weeks = recentMinutes;
+	}
+	if (row.last_played !== null && row.last_played !== undefined) {
+		game.rtime_last_played = coerceNumber(row.last_played);
+	}
+	return game;
+}
+
+async function loadPlaytimePayloads(
+	steamIds: string[],
+): Promise<Map<string, CachedPlaytimePayload>> {
+	const payloads = new Map<string, CachedPlaytimePayload>();
+	for (const chunk of chunked(steamIds)) {
+		const rows = await sql`
+			SELECT steam_id, appid, name, minutes, recent_minutes, windows_minutes, mac_minutes, linux_minutes, deck_minutes, last_played
+			FROM owned_games
+			WHERE steam_id IN ${sql(chunk)}
+			ORDER BY steam_id, appid
+		`;
+		for (const row of rows as any[]) {
+			const steamId = String(row.steam_id);
+			let payload = payloads.get(steamId);
+			if (!payload) {
+				payload = { game_count: 0, games: [] };
+				payloads.set(steamId, payload);
+			}
+			payload.games.push(toSteamGame(row));
+			payload.game_count++;
+		}
+	}
+	return payloads;
+}
+
+async function replaceOwnedGames(db: SQL, steamId: string, rows: OwnedGameRow[]) {
+	await db`
+		DELETE FROM owned_games
+		WHERE steam_id = ${steamId}
+	`;
+	for (const chunk of chunked(rows)) {
+		await db`INSERT INTO owned_games ${db(chunk, ...OWNED_GAME_COLUMNS)}`;
+	}
+}
+
+async function listOwnedGameMinutes(db: SQL, steamId: string): Promise<GameMinutesEntry[]> {
+	const rows = await db`
+		SELECT appid, minutes
+		FROM owned_games
+		WHERE steam_id = ${steamId} AND minutes > 0
+	`;
+	return (rows as any[]).map((row) => ({
+		appid: coerceNumber(row.appid),
+		minutes: coerceNumber(row.minutes),
+		name: "",
+	}));
+}
+
+// Applies the difference between a profile's previous and new games to
+// `game_playtime_totals`, one statement per chunk of changed games.
+async function adjustGameTotals(
+	db: SQL,
+	previousEntries: GameMinutesEntry[],
+	newEntries: GameMinutesEntry[],
+) {
+	const deltas = new Map<number, { appid: number; name: string; total_minutes: number }>();
+	for (const entry of previousEntries) {
+		deltas.set(entry.appid, { appid: entry.appid, name: "", total_minutes: -entry.minutes });
+	}
+	for (const entry of newEntries) {
+		const previousDelta = deltas.get(entry.appid)?.total_minutes ?? 0;
+		deltas.set(entry.appid, {
+			appid: entry.appid,
+			name: entry.name,
+			total_minutes: previousDelta + entry.minutes,
+		});
+	}
+
+	const changed = [...deltas.values()].filter((delta) => delta.total_minutes !== 0);
+	if (!changed.length) {
+		return;
+	}
+
+	for (const chunk of chunked(changed)) {
+		await db`
+			INSERT INTO game_playtime_totals ${db(chunk, "appid", "name", "total_minutes")}
 			ON CONFLICT(appid)
 			DO UPDATE SET
-				total_minutes = MAX(game_playtime_totals.total_minutes + excluded.total_minutes, 0),
+				total_minutes = CASE
+					WHEN game_playtime_totals.total_minutes + excluded.total_minutes > 0
+						THEN game_playtime_totals.total_minutes + excluded.total_minutes
+					ELSE 0
+				END,
 				name = CASE
-					WHEN TRIM(game_playtime_totals.name) != "" THEN game_playtime_totals.name
-					WHEN TRIM(excluded.name) != "" THEN excluded.name
+					WHEN TRIM(game_playtime_totals.name) <> '' THEN game_playtime_totals.name
+					WHEN TRIM(excluded.name) <> '' THEN excluded.name
 					ELSE game_playtime_totals.name
 				END
 		`;
 	}
 
-	await sql`
+	await db`
 		DELETE FROM game_playtime_totals
 		WHERE total_minutes <= 0
 	`;
@@ -269,17 +357,18 @@ const cachePresenceRow = (await sql`
 	LIMIT 1
 `) as Array<{ count?: number | string | bigint | null }>;
 
-let materializedReady = coerceNumber(metricsPresenceRow[0]?.count) > 0 || coerceNumber(cachePresenceRow[0]?.count) === 0;
+let materializedReady =
+	coerceNumber(metricsPresenceRow[0]?.count) > 0 ||
+	coerceNumber(cachePresenceRow[0]?.count) === 0;
 let metricsDirty = !materializedReady;
 let materializationPromise: Promise<void> | null = null;
 
 async function refreshMaterializedAggregates() {
-	await sql`BEGIN`;
-	try {
-		await sql`DELETE FROM playtime_metrics`;
-		await sql`DELETE FROM game_playtime_totals`;
+	await transaction(async (tx) => {
+		await tx`DELETE FROM playtime_metrics`;
+		await tx`DELETE FROM game_playtime_totals`;
 
-		await sql`
+		await tx`
 			INSERT INTO playtime_metrics (
 				steam_id,
 				fetched_at,
@@ -288,89 +377,64 @@ async function refreshMaterializedAggregates() {
 				average_minutes,
 				top_game_appid,
 				top_game_name,
-				top_game_minutes
+				top_game_minutes,
+				linux_minutes,
+				games_over_100h
 			)
-			WITH record_games AS (
+			WITH totals AS (
 				SELECT
-					pc.steam_id AS steam_id,
-					pc.fetched_at AS fetched_at,
-					CAST(json_extract(pc.payload, '$.game_count') AS INTEGER) AS game_count,
-					CAST(json_extract(g.value, '$.appid') AS INTEGER) AS appid,
-					TRIM(json_extract(g.value, '$.name')) AS name,
-					CAST(json_extract(g.value, '$.playtime_forever') AS INTEGER) AS minutes
-				FROM playtime_cache pc
-				LEFT JOIN json_each(pc.payload, '$.games') AS g
-			),
-			totals AS (
-				SELECT
-					record_games.steam_id,
-					MAX(record_games.fetched_at) AS fetched_at,
-					MAX(COALESCE(record_games.game_count, 0)) AS game_count,
-					SUM(CASE WHEN record_games.minutes > 0 THEN record_games.minutes ELSE 0 END) AS total_minutes
-				FROM record_games
-				GROUP BY record_games.steam_id
+					owned_games.steam_id,
+					COUNT(*) AS game_count,
+					SUM(owned_games.minutes) AS total_minutes,
+					SUM(owned_games.linux_minutes) AS linux_minutes,
+					SUM(CASE WHEN owned_games.minutes > ${HUNDRED_HOURS_IN_MINUTES} THEN 1 ELSE 0 END) AS games_over_100h
+				FROM owned_games
+				GROUP BY owned_games.steam_id
 			),
 			top_games AS (
 				SELECT
-					record_games.steam_id,
-					record_games.appid,
-					record_games.name,
-					CASE WHEN record_games.minutes > 0 THEN record_games.minutes ELSE 0 END AS minutes,
+					owned_games.steam_id,
+					owned_games.appid,
+					owned_games.name,
+					owned_games.minutes,
 					ROW_NUMBER() OVER (
-						PARTITION BY record_games.steam_id
-						ORDER BY
-							CASE WHEN record_games.name IS NULL OR TRIM(record_games.name) = '' THEN 1 ELSE 0 END,
-							CASE WHEN record_games.minutes > 0 THEN record_games.minutes ELSE 0 END DESC,
-							COALESCE(record_games.appid, 0) ASC
+						PARTITION BY owned_games.steam_id
+						ORDER BY owned_games.minutes DESC, owned_games.appid ASC
 					) AS rank
-				FROM record_games
-				WHERE record_games.appid IS NOT NULL AND record_games.name IS NOT NULL AND TRIM(record_games.name) != ''
+				FROM owned_games
+				WHERE TRIM(owned_games.name) <> ''
 			)
 			SELECT
 				totals.steam_id,
-				totals.fetched_at,
+				pc.fetched_at,
 				totals.game_count,
-				COALESCE(totals.total_minutes, 0) AS total_minutes,
-				CASE
-					WHEN totals.game_count > 0 THEN COALESCE(totals.total_minutes, 0) * 1.0 / totals.game_count
-					ELSE 0
-				END AS average_minutes,
+				totals.total_minutes,
+				totals.total_minutes * 1.0 / totals.game_count AS average_minutes,
 				top_games.appid AS top_game_appid,
 				top_games.name AS top_game_name,
-				top_games.minutes AS top_game_minutes
+				top_games.minutes AS top_game_minutes,
+				totals.linux_minutes,
+				totals.games_over_100h
 			FROM totals
+			JOIN playtime_cache pc ON pc.steam_id = totals.steam_id
 			LEFT JOIN top_games ON top_games.steam_id = totals.steam_id AND top_games.rank = 1
-			WHERE totals.game_count > 0 AND COALESCE(totals.total_minutes, 0) > 0
+			WHERE totals.total_minutes > 0
 		`;
 
-		await sql`
+		await tx`
 			INSERT INTO game_playtime_totals (appid, name, total_minutes)
-			WITH record_games AS (
-				SELECT
-					CAST(json_extract(g.value, '$.appid') AS INTEGER) AS appid,
-					TRIM(json_extract(g.value, '$.name')) AS name,
-					CAST(json_extract(g.value, '$.playtime_forever') AS INTEGER) AS minutes
-				FROM playtime_cache pc
-				JOIN json_each(pc.payload, '$.games') AS g
-			)
 			SELECT
-				record_games.appid,
-				COALESCE(MAX(CASE WHEN record_games.name != '' THEN record_games.name END), '') AS name,
-				SUM(CASE WHEN record_games.minutes > 0 THEN record_games.minutes ELSE 0 END) AS total_minutes
-			FROM record_games
-			WHERE record_games.appid IS NOT NULL
-			GROUP BY record_games.appid
-			HAVING total_minutes > 0
+				owned_games.appid,
+				COALESCE(MAX(CASE WHEN owned_games.name <> '' THEN owned_games.name END), '') AS name,
+				SUM(owned_games.minutes) AS total_minutes
+			FROM owned_games
+			GROUP BY owned_games.appid
+			HAVING SUM(owned_games.minutes) > 0
 		`;
-
-		await sql`COMMIT`;
-	} catch (error) {
-		await sql`ROLLBACK`;
-		throw error;
-	}
+	});
 }
 
-async function ensureMaterializedAggregates() {
+export async function ensureMaterializedAggregates() {
 	if (materializedReady && !metricsDirty) {
 		return;
 	}
@@ -394,27 +458,10 @@ async function ensureMaterializedAggregates() {
 	await materializationPromise;
 }
 
-async function deletePlaytimeCacheEntry(steamId: string, existingRow?: PlaytimeCacheRow) {
-	const rows = existingRow
-		? [existingRow]
-		: ((await sql`
-			SELECT steam_id, payload, fetched_at
-			FROM playtime_cache
-			WHERE steam_id = ${steamId}
-			LIMIT 1
-		`) as PlaytimeCacheRow[]);
-
-	const row = rows[0];
-
-	if (row && materializedReady && !metricsDirty) {
-		const parsed = parseCachedPlaytimeRow(row, { allowExpired: true });
-		if (parsed.status === "ok" && parsed.payload) {
-			const previousEntries = extractGameMinutes(parsed.payload);
-			if (previousEntries.length) {
-				await adjustGameTotals(previousEntries, -1);
-			}
-		}
-		await sql`
+async function removePlaytimeCacheEntry(db: SQL, steamId: string) {
+	if (materializedReady && !metricsDirty) {
+		await adjustGameTotals(db, await listOwnedGameMinutes(db, steamId), []);
+		await db`
 			DELETE FROM playtime_metrics
 			WHERE steam_id = ${steamId}
 		`;
@@ -422,26 +469,83 @@ async function deletePlaytimeCacheEntry(steamId: string, existingRow?: PlaytimeC
 		metricsDirty = true;
 	}
 
-	await sql`
+	await db`
+		DELETE FROM owned_games
+		WHERE steam_id = ${steamId}
+	`;
+	await db`
 		DELETE FROM playtime_cache
 		WHERE steam_id = ${steamId}
 	`;
 }
 
-export async function getCachedVanityResolution(vanity: string) {
+async function deletePlaytimeCacheEntry(steamId: string) {
+	await transaction((tx) => removePlaytimeCacheEntry(tx, steamId));
+}
+
+async function recordPlaytimeHistorySnapshot(
+	db: SQL,
+	steamId: string,
+	entries: GameMinutesEntry[],
+	fetchedAt: number,
+) {
+	const totalMinutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+	// Snapshots only keep [appid, minutes] pairs; names come from owned_games.
+	const serialized = JSON.stringify(
+		entries.map((entry) => [entry.appid, entry.minutes]),
+	);
+
+	await db`
+		INSERT INTO playtime_history (steam_id, fetched_at, game_count, total_minutes, games)
+		VALUES (${steamId}, ${fetchedAt}, ${entries.length}, ${totalMinutes}, ${serialized})
+		ON CONFLICT(steam_id, fetched_at)
+		DO UPDATE SET
+			game_count = excluded.game_count,
+			total_minutes = excluded.total_minutes,
+			games = excluded.games
+	`;
+
+	const retentionThreshold = fetchedAt - PLAYTIME_HISTORY_RETENTION_SECONDS;
+	await db`
+		DELETE FROM playtime_history
+		WHERE steam_id = ${steamId} AND fetched_at < ${retentionThreshold}
+	`;
+}
+
+export interface CachedVanityResolution {
+	steamId: string;
+	resolvedAt: number;
+	stale: boolean;
+}
+
+// Expired mappings are still returned (flagged `stale`) so callers can answer
+// straight away and revalidate in the background.
+export async function getCachedVanityResolution(
+	vanity: string,
+): Promise<CachedVanityResolution | null> {
 	const normalized = normalizeVanity(vanity);
 	if (!normalized) {
 		return null;
 	}
 
 	const rows = await sql`
-		SELECT steam_id
+		SELECT steam_id, create_time
 		FROM vanity_cache
 		WHERE vanity = ${normalized}
 		LIMIT 1
 	`;
 
-	return rows.length ? (rows[0].steam_id as string) : null;
+	const row = rows[0] as { steam_id: string; create_time: number } | undefined;
+	if (!row) {
+		return null;
+	}
+
+	const resolvedAt = coerceNumber(row.create_time);
+	return {
+		steamId: String(row.steam_id),
+		resolvedAt,
+		stale: nowSeconds() - resolvedAt > VANITY_TTL_SECONDS,
+	};
 }
 
 export async function cacheVanityResolution(vanity: string, steamId: string) {
@@ -458,46 +562,99 @@ export async function cacheVanityResolution(vanity: string, steamId: string) {
 		ON CONFLICT(vanity)
 		DO UPDATE SET steam_id = excluded.steam_id, create_time = excluded.create_time
 	`;
+	await sql`DELETE FROM vanity_miss_cache WHERE vanity = ${normalized}`;
 }
 
-export async function getCachedPlaytimePayload(
-	steamId: string,
-): Promise<CachedPlaytimePayload | null> {
+export async function getCachedVanityMiss(vanity: string): Promise<string | null> {
+	const normalized = normalizeVanity(vanity);
+	if (!normalized) {
+		return null;
+	}
+
+	const threshold = nowSeconds() - VANITY_MISS_TTL_SECONDS;
 	const rows = await sql`
-		SELECT payload, fetched_at
-		FROM playtime_cache
-		WHERE steam_id = ${steamId}
+		SELECT message
+		FROM vanity_miss_cache
+		WHERE vanity = ${normalized} AND checked_at >= ${threshold}
 		LIMIT 1
 	`;
 
-	if (!rows.length) {
-		return null;
+	return rows.length ? String(rows[0].message) : null;
+}
+
+// A miss also drops any old mapping: the URL has been changed or released.
+export async function cacheVanityMiss(vanity: string, message: string) {
+	const normalized = normalizeVanity(vanity);
+	if (!normalized) {
+		return;
 	}
 
-	const row = rows[0] as { payload: string; fetched_at: number };
-	const isExpired = nowSeconds() - row.fetched_at > PLAYTIME_TTL_SECONDS;
+	const timestamp = nowSeconds();
+	await sql`
+		INSERT INTO vanity_miss_cache (vanity, message, checked_at)
+		VALUES (${normalized}, ${message}, ${timestamp})
+		ON CONFLICT(vanity)
+		DO UPDATE SET message = excluded.message, checked_at = excluded.checked_at
+	`;
+	await sql`DELETE FROM vanity_cache WHERE vanity = ${normalized}`;
+}
 
-	if (isExpired) {
+export async function deleteCachedVanityResolution(vanity: string): Promise<boolean> {
+	const normalized = normalizeVanity(vanity);
+	if (!normalized) {
+		return false;
+	}
+
+	const [resolutions, misses] = await Promise.all([
+		sql`DELETE FROM vanity_cache WHERE vanity = ${normalized} RETURNING vanity`,
+		sql`DELETE FROM vanity_miss_cache WHERE vanity = ${normalized} RETURNING vanity`,
+	]);
+	return resolutions.length + misses.length > 0;
+}
+
+export async function getCachedPlaytimePayload(
+	steamId: string,
+): Promise<CachedPlaytimePayload | null> {
+	const record = await getCachedPlaytimeRecord(steamId);
+	if (!record || nowSeconds() - record.fetchedAt > PLAYTIME_TTL_SECONDS) {
 		return null;
 	}
+	return record.payload;
+}
 
-	const parsed = parseCachedPlaytimeRow({ steam_id: steamId, ...row });
+// Unlike getCachedPlaytimePayload this keeps expired rows, so callers can serve
+// the last good payload while Steam is refetched or unavailable.
+export async function getCachedPlaytimeRecord(
+	steamId: string,
+): Promise<CachedPlaytimeRecord | null> {
+	const rows = (await sql`
+		SELECT steam_id, fetched_at
+		FROM playtime_cache
+		WHERE steam_id = ${steamId}
+		LIMIT 1
+	`) as PlaytimeCacheRow[];
 
-	if (parsed.status === "ok" && parsed.payload) {
-		return parsed.payload;
+	const row = rows[0];
+	if (!row) {
+		return null;
 	}
 
-	if (parsed.status === "empty" || parsed.status === "invalid") {
-		await deletePlaytimeCacheEntry(steamId, {
-			steam_id: steamId,
-			payload: row.payload,
-			fetched_at: row.fetched_at,
-		});
+	const payload = (await loadPlaytimePayloads([steamId])).get(steamId);
+	if (payload) {
+		return {
+			steamId,
+			payload,
+			fetchedAt: coerceNumber(row.fetched_at),
+		};
 	}
 
+	// A cache row without games is unusable; drop it so the profile is refetched.
+	await deletePlaytimeCacheEntry(steamId);
 	return null;
 }
 
+// Writes the profile, its games, its history snapshot and the leaderboard
+// tables in one transaction.
 export async function cachePlaytimePayload(
 	steamId: string,
 	payload: CachedPlaytimePayload,
@@ -507,78 +664,67 @@ export async function cachePlaytimePayload(
 		return;
 	}
 
-	const serialized = JSON.stringify(payload);
 	const timestamp = nowSeconds();
+	const ownedGames = toOwnedGameRows(steamId, payload.games);
+	const newEntries = extractGameMinutes(payload);
+	const summary = summarizePayload(payload);
 
-	const existingRows = (await sql`
-		SELECT steam_id, payload, fetched_at
-		FROM playtime_cache
-		WHERE steam_id = ${steamId}
-		LIMIT 1
-	`) as PlaytimeCacheRow[];
-
-	await sql`
-		INSERT INTO playtime_cache (steam_id, payload, fetched_at)
-		VALUES (${steamId}, ${serialized}, ${timestamp})
-		ON CONFLICT(steam_id)
-		DO UPDATE SET payload = excluded.payload, fetched_at = excluded.fetched_at
-	`;
-
-	if (!materializedReady || metricsDirty) {
-		metricsDirty = true;
-		return;
-	}
+	await transaction(async (tx) => {
+		const previousEntries = await listOwnedGameMinutes(tx, steamId);
 
-	const summary = summarizePayload(payload);
-	const newEntries = extractGameMinutes(payload);
+		await tx`
+			INSERT INTO playtime_cache (steam_id, fetched_at)
+			VALUES (${steamId}, ${timestamp})
+			ON CONFLICT(steam_id)
+			DO UPDATE SET fetched_at = excluded.fetched_at
+		`;
+		await replaceOwnedGames(tx, steamId, ownedGames);
+		await recordPlaytimeHistorySnapshot(tx, steamId, newEntries, timestamp);
 
-	const existingRow = existingRows[0];
-	if (existingRow) {
-		const parsedExisting = parseCachedPlaytimeRow(existingRow, {
-			allowExpired: true,
-		});
-		if (parsedExisting.status === "ok" && parsedExisting.payload) {
-			const previousEntries = extractGameMinutes(parsedExisting.payload);
-			if (previousEntries.length) {
-				await adjustGameTotals(previousEntries, -1);
-			}
+		if (!materializedReady || metricsDirty) {
+			metricsDirty = true;
+			return;
 		}
-	}
 
-	if (newEntries.length) {
-		await adjustGameTotals(newEntries, 1);
-	}
+		await adjustGameTotals(tx, previousEntries, newEntries);
 
-	await sql`
-		INSERT INTO playtime_metrics (
-			steam_id,
-			fetched_at,
-			game_count,
-			total_minutes,
-			average_minutes,
-			top_game_appid,
-			top_game_name,
-			top_game_minutes
-		)
-		VALUES (
-			${steamId},
-			${timestamp},
-			${summary.gameCount},
-			${summary.totalMinutes},
-			${summary.averageMinutes},
-			${summary.topGame?.appid ?? null},
-			${summary.topGame?.name ?? null},
-			${summary.topGame?.minutes ?? null}
-		)
-		ON CONFLICT(steam_id) DO UPDATE SET
-			fetched_at = excluded.fetched_at,
-			game_count = excluded.game_count,
-			total_minutes = excluded.total_minutes,
-			average_minutes = excluded.average_minutes,
-			top_game_appid = excluded.top_game_appid,
-			top_game_name = excluded.top_game_name,
-			top_game_minutes = excluded.top_game_minutes
-	`;
+		await tx`
+			INSERT INTO playtime_metrics (
+				steam_id,
+				fetched_at,
+				game_count,
+				total_minutes,
+				average_minutes,
+				top_game_appid,
+				top_game_name,
+				top_game_minutes,
+				linux_minutes,
+				games_over_100h
+			)
+			VALUES (
+				${steamId},
+				${timestamp},
+				${summary.gameCount},
+				${summary.totalMinutes},
+				${summary.averageMinutes},
+				${summary.topGame?.appid ?? null},
+				${summary.topGame?.name ?? null},
+				${summary.topGame?.minutes ?? null},
+				${summary.linuxMinutes},
+				${summary.gamesOver100Hours}
+			)
+			ON CONFLICT(steam_id) DO UPDATE SET
+				fetched_at = excluded.fetched_at,
+				game_count = excluded.game_count,
+				total_minutes = excluded.total_minutes,
+				average_minutes = excluded.average_minutes,
+				top_game_appid = excluded.top_game_appid,
+				top_game_name = excluded.top_game_name,
+				top_game_minutes = excluded.top_game_minutes,
+				linux_minutes = excluded.linux_minutes,
+				games_over_100h = excluded.games_over_100h
+		`;
+	});
 }
 
 export interface CachedPlaytimeRecord {
@@ -595,35 +741,52 @@ export async function listCachedPlaytimeRecords(
 	options?: ListCachedPlaytimeOptions,
 ): Promise<CachedPlaytimeRecord[]> {
 	const includeExpired = options?.includeExpired ?? false;
-	const rows = (await sql`
-		SELECT steam_id, payload, fetched_at
+	const rows = ((await sql`
+		SELECT steam_id, fetched_at
 		FROM playtime_cache
-	`) as PlaytimeCacheRow[];
+	`) as PlaytimeCacheRow[]).filter((row) => includeExpired || !isPlaytimeRowExpired(row));
 
+	const payloads = await loadPlaytimePayloads(rows.map((row) => row.steam_id));
 	const validRecords: CachedPlaytimeRecord[] = [];
 
 	for (const row of rows) {
-		const parsed = parseCachedPlaytimeRow(row, {
-			allowExpired: includeExpired,
-		});
-
-		if (parsed.status === "ok" && parsed.payload) {
+		const payload = payloads.get(row.steam_id);
+		if (payload) {
 			validRecords.push({
 				steamId: row.steam_id,
-				payload: parsed.payload,
-				fetchedAt: row.fetched_at,
+				payload,
+				fetchedAt: coerceNumber(row.fetched_at),
 			});
 			continue;
 		}
-
-		if (parsed.status === "empty" || parsed.status === "invalid") {
-			await deletePlaytimeCacheEntry(row.steam_id, row);
-		}
+		await deletePlaytimeCacheEntry(row.steam_id);
 	}
 
 	return validRecords;
 }
 
+export async function listExpiredPlaytimeSteamIds(limit: number): Promise<string[]> {
+	const threshold = nowSeconds() - PLAYTIME_TTL_SECONDS;
+	const rows = await sql`
+		SELECT steam_id
+		FROM playtime_cache
+		WHERE fetched_at < ${threshold}
+		ORDER BY fetched_at ASC, steam_id ASC
+		LIMIT ${limit}
+	`;
+	return (rows as Array<{ steam_id: string }>).map((row) => String(row.steam_id));
+}
+
+export async function countExpiredPlaytimeEntries(): Promise<number> {
+	const threshold = nowSeconds() - PLAYTIME_TTL_SECONDS;
+	const rows = await sql`
+		SELECT COUNT(*) AS count
+		FROM playtime_cache
+		WHERE fetched_at < ${threshold}
+	`;
+	return coerceNumber((rows[0] as { count?: number | string | bigint | null } | undefined)?.count);
+}
+
 export async function countPlaytimeCacheEntries(): Promise<number> {
 	const rows = await sql`
 		SELECT COUNT(*) AS count
@@ -640,6 +803,8 @@ function mapMetricsRow(row: any): PlaytimeMetricsRow {
 	const gameCount = coerceNumber(row.game_count);
 	const totalMinutes = coerceNumber(row.total_minutes);
 	const averageMinutes = Number(row.average_minutes ?? 0);
+	const linuxMinutes = coerceNumber(row.linux_minutes);
+	const gamesOver100Hours = coerceNumber(row.games_over_100h);
 	const topGameAppId = sanitizeAppId(row.top_game_appid);
 	const topGameMinutes = coerceNumber(row.top_game_minutes);
 	const rawName = typeof row.top_game_name === "string" ? row.top_game_name.trim() : "";
@@ -650,6 +815,8 @@ function mapMetricsRow(row: any): PlaytimeMetricsRow {
 		gameCount,
 		totalMinutes,
 		averageMinutes,
+		linuxMinutes,
+		gamesOver100Hours,
 		topGame:
 			topGameAppId && rawName && topGameMinutes
 				? {
@@ -661,44 +828,95 @@ function mapMetricsRow(row: any): PlaytimeMetricsRow {
 	};
 }
 
-export async function listPlaytimeMetricsByGameCount(
-	limit: number,
-): Promise<PlaytimeMetricsRow[]> {
-	await ensureMaterializedAggregates();
-	const rows = await sql`
-		SELECT steam_id, fetched_at, game_count, total_minutes, average_minutes, top_game_appid, top_game_name, top_game_minutes
-		FROM playtime_metrics
-		WHERE game_count > 0 AND total_minutes > 0
-		ORDER BY game_count DESC, total_minutes DESC, steam_id ASC
-		LIMIT ${limit}
-	`;
-	return (rows as any[]).map(mapMetricsRow);
+export type LeaderboardMetric =
+	| "game_count"
+	| "total_playtime"
+	| "average_playtime"
+	| "linux_playtime"
+	| "top_game_share"
+	| "games_over_100h"
+	| "recently_updated";
+
+export interface PlaytimeMetricsQuery {
+	metric: LeaderboardMetric;
+	offset: number;
+	limit: number;
+	minGames: number;
 }
 
-export async function listPlaytimeMetricsByTotalMinutes(
-	limit: number,
-): Promise<PlaytimeMetricsRow[]> {
+export async function listPlaytimeMetricsPage(
+	query: PlaytimeMetricsQuery,
+): Promise<{ total: number; rows: PlaytimeMetricsRow[] }> {
 	await ensureMaterializedAggregates();
-	const rows = await sql`
-		SELECT steam_id, fetched_at, game_count, total_minutes, average_minutes, top_game_appid, top_game_name, top_game_minutes
-		FROM playtime_metrics
-		WHERE game_count > 0 AND total_minutes > 0
-		ORDER BY total_minutes DESC, game_count DESC, steam_id ASC
-		LIMIT ${limit}
+
+	let metricFilter = sql``;
+	let ordering;
+	switch (query.metric) {
+		case "game_count":
+			ordering = sql`game_count DESC, total_minutes DESC, steam_id ASC`;
+			break;
+		case "total_playtime":
+			ordering = sql`total_minutes DESC, game_count DESC, steam_id ASC`;
+			break;
+		case "average_playtime":
+			ordering = sql`average_minutes DESC, total_minutes DESC, steam_id ASC`;
+			break;
+		case "linux_playtime":
+			metricFilter = sql`AND linux_minutes > 0`;
+			ordering = sql`linux_minutes DESC, total_minutes DESC, steam_id ASC`;
+			break;
+		case "top_game_share":
+			metricFilter = sql`AND top_game_minutes > 0`;
+			ordering = sql`top_game_minutes * 1.0 / total_minutes DESC, total_minutes DESC, steam_id ASC`;
+			break;
+		case "games_over_100h":
+			metricFilter = sql`AND games_over_100h > 0`;
+			ordering = sql`games_over_100h DESC, total_minutes DESC, steam_id ASC`;
+			break;
+		case "recently_updated":
+			ordering = sql`fetched_at DESC, steam_id ASC`;
+			break;
+	}
+
+	const filter = sql`
+		game_count >= ${Math.max(query.minGames, 1)} AND total_minutes > 0
+			AND steam_id NOT IN (SELECT steam_id FROM hidden_profiles)
+			${metricFilter}
 	`;
-	return (rows as any[]).map(mapMetricsRow);
+
+	const [countRows, rows] = await Promise.all([
+		sql`
+			SELECT COUNT(*) AS count
+			FROM playtime_metrics
+			WHERE ${filter}
+		`,
+		sql`
+			SELECT steam_id, fetched_at, game_count, total_minutes, average_minutes, top_game_appid, top_game_name, top_game_minutes, linux_minutes, games_over_100h
+			FROM playtime_metrics
+			WHERE ${filter}
+			ORDER BY ${ordering}
+			LIMIT ${query.limit}
+			OFFSET ${query.offset}
+		`,
+	]);
+
+	return {
+		total: coerceNumber((countRows[0] as { count?: number | string | bigint | null } | undefined)?.count),
+		rows: (rows as any[]).map(mapMetricsRow),
+	};
 }
 
-export async function listPlaytimeMetricsByAverageMinutes(
-	limit: number,
+export async function listPlaytimeMetricsForSteamIds(
+	steamIds: string[],
 ): Promise<PlaytimeMetricsRow[]> {
+	if (!steamIds.length) {
+		return [];
+	}
 	await ensureMaterializedAggregates();
 	const rows = await sql`
-		SELECT steam_id, fetched_at, game_count, total_minutes, average_minutes, top_game_appid, top_game_name, top_game_minutes
+		SELECT steam_id, fetched_at, game_count, total_minutes, average_minutes, top_game_appid, top_game_name, top_game_minutes, linux_minutes, games_over_100h
 		FROM playtime_metrics
-		WHERE game_count > 0 AND total_minutes > 0
-		ORDER BY average_minutes DESC, total_minutes DESC, steam_id ASC
-		LIMIT ${limit}
+		WHERE steam_id IN ${sql(steamIds)} AND game_count > 0 AND total_minutes > 0
 	`;
 	return (rows as any[]).map(mapMetricsRow);
 }
@@ -745,17 +963,21 @@ export async function attemptManualRefreshReservation(
 		INSERT INTO playtime_refresh_locks (steam_id, requested_at)
 		VALUES (${steamId}, ${now})
 		ON CONFLICT(steam_id)
-		DO UPDATE SET requested_at = CASE
-			WHEN playtime_refresh_locks.requested_at <= ${threshold} THEN excluded.requested_at
-			ELSE playtime_refresh_locks.requested_at
-		END
+		DO UPDATE SET requested_at = excluded.requested_at
+		WHERE playtime_refresh_locks.requested_at <= ${threshold}
 		RETURNING requested_at
 	`;
-	const stored = coerceNumber(rows[0]?.requested_at);
-	if (stored === now) {
+	if (rows.length) {
 		return { allowed: true };
 	}
 
+	const existingRows = await sql`
+		SELECT requested_at
+		FROM playtime_refresh_locks
+		WHERE steam_id = ${steamId}
+		LIMIT 1
+	`;
+	const stored = coerceNumber(existingRows[0]?.requested_at);
 	const retryAfterSeconds = Math.max(
 		0,
 		cooldownSeconds - (now - stored),
@@ -804,3 +1026,763 @@ export async function getUniqueTrackedGameCount(): Promise<number> {
 	const row = rows[0] as { count?: number | string | bigint | null } | undefined;
 	return coerceNumber(row?.count);
 }
+
+export async function releaseManualRefreshReservation(
+	steamId: string,
+	requestedAt: number,
+) {
+	await sql`
+		DELETE FROM playtime_refresh_locks
+		WHERE steam_id = ${steamId} AND requested_at = ${requestedAt}
+	`;
+}
+
+export async function getManualRefreshAvailableAt(
+	steamId: string,
+	cooldownSeconds: number,
+): Promise<number> {
+	const rows = await sql`
+		SELECT requested_at
+		FROM playtime_refresh_locks
+		WHERE steam_id = ${steamId}
+		LIMIT 1
+	`;
+	const row = rows[0] as { requested_at?: number | string | bigint | null } | undefined;
+	if (!row) {
+		return 0;
+	}
+	return coerceNumber(row.requested_at) + cooldownSeconds;
+}
+
+export interface PlaytimeHistorySnapshotSummary {
+	fetchedAt: number;
+	gameCount: number;
+	totalMinutes: number;
+}
+
+export interface PlaytimeHistorySnapshot extends PlaytimeHistorySnapshotSummary {
+	minutesByAppId: Map<number, number>;
+}
+
+function parseHistoryGames(raw: unknown): Map<number, number> {
+	const minutesByAppId = new Map<number, number>();
+	if (typeof raw !== "string") {
+		return minutesByAppId;
+	}
+
+	try {
+		const pairs = JSON.parse(raw) as unknown;
+		if (!Array.isArray(pairs)) {
+			return minutesByAppId;
+		}
+		for (const pair of pairs) {
+			if (!Array.isArray(pair)) {
+				continue;
+			}
+			const appid = sanitizeAppId(pair[0]);
+			const minutes = normalizeMinutes(pair[1]);
+			if (appid && minutes) {
+				minutesByAppId.set(appid, minutes);
+			}
+		}
+	} catch (error) {
+		console.error("Failed to parse playtime history snapshot", error);
+	}
+
+	return minutesByAppId;
+}
+
+export async function listPlaytimeHistorySnapshots(
+	steamId: string,
+): Promise<PlaytimeHistorySnapshotSummary[]> {
+	const rows = await sql`
+		SELECT fetched_at, game_count, total_minutes
+		FROM playtime_history
+		WHERE steam_id = ${steamId}
+		ORDER BY fetched_at ASC
+	`;
+	return (rows as any[]).map((row) => ({
+		fetchedAt: coerceNumber(row.fetched_at),
+		gameCount: coerceNumber(row.game_count),
+		totalMinutes: coerceNumber(row.total_minutes),
+	}));
+}
+
+export async function getPlaytimeHistorySnapshotAt(
+	steamId: string,
+	timestamp: number,
+): Promise<PlaytimeHistorySnapshot | null> {
+	const rows = await sql`
+		SELECT fetched_at, game_count, total_minutes, games
+		FROM playtime_history
+		WHERE steam_id = ${steamId} AND fetched_at <= ${timestamp}
+		ORDER BY fetched_at DESC
+		LIMIT 1
+	`;
+	const row = rows[0] as
+		| {
+			fetched_at?: number | string | bigint | null;
+			game_count?: number | string | bigint | null;
+			total_minutes?: number | string | bigint | null;
+			games?: string | null;
+		}
+		| undefined;
+	if (!row) {
+		return null;
+	}
+	return {
+		fetchedAt: coerceNumber(row.fetched_at),
+		gameCount: coerceNumber(row.game_count),
+		totalMinutes: coerceNumber(row.total_minutes),
+		minutesByAppId: parseHistoryGames(row.games),
+	};
+}
+
+// Names come from whichever profiles own each game, so they survive the
+// requesting profile's own cache row expiring or being dropped.
+export async function listGameNames(appids: number[]): Promise<Map<number, string>> {
+	const names = new Map<number, string>();
+	for (const chunk of chunked(appids)) {
+		const rows = await sql`
+			SELECT appid, MAX(name) AS name
+			FROM owned_games
+			WHERE appid IN ${sql(chunk)} AND TRIM(name) <> ''
+			GROUP BY appid
+		`;
+		for (const row of rows as Array<{ appid: number | string; name: string }>) {
+			names.set(Number(row.appid), String(row.name).trim());
+		}
+	}
+	return names;
+}
+
+export async function getCachedHeaderArt(
+	appid: number,
+): Promise<Uint8Array | null> {
+	const rows = await sql`
+		SELECT image, fetched_at
+		FROM header_art_cache
+		WHERE appid = ${appid}
+		LIMIT 1
+	`;
+	const row = rows[0] as { image?: Uint8Array | null; fetched_at: number } | undefined;
+	if (!row || nowSeconds() - row.fetched_at > HEADER_ART_TTL_SECONDS) {
+		return null;
+	}
+	return row.image ?? new Uint8Array();
+}
+
+export async function cacheHeaderArt(appid: number, image: Uint8Array) {
+	const timestamp = nowSeconds();
+	await sql`
+		INSERT INTO header_art_cache (appid, image, fetched_at)
+		VALUES (${appid}, ${image}, ${timestamp})
+		ON CONFLICT(appid)
+		DO UPDATE SET image = excluded.image, fetched_at = excluded.fetched_at
+	`;
+}
+
+export interface GamePlaytimeTotal {
+	appid: number;
+	name: string;
+	totalMinutes: number;
+	playerCount: number;
+}
+
+export async function getGamePlaytimeTotal(
+	appid: number,
+): Promise<GamePlaytimeTotal | undefined> {
+	await ensureMaterializedAggregates();
+	const rows = await sql`
+		SELECT
+			totals.appid,
+			totals.name,
+			totals.total_minutes,
+			(
+				SELECT COUNT(*)
+				FROM owned_games
+				WHERE owned_games.appid = totals.appid AND owned_games.minutes > 0
+			) AS player_count
+		FROM game_playtime_totals totals
+		WHERE totals.appid = ${appid}
+		LIMIT 1
+	`;
+	const row = rows[0] as
+		| {
+			appid?: number | string | bigint | null;
+			name?: string | null;
+			total_minutes?: number | string | bigint | null;
+			player_count?: number | string | bigint | null;
+		}
+		| undefined;
+	const sanitizedAppId = sanitizeAppId(row?.appid);
+	if (!row || !sanitizedAppId) {
+		return undefined;
+	}
+	return {
+		appid: sanitizedAppId,
+		name: typeof row.name === "string" ? row.name.trim() : "",
+		totalMinutes: coerceNumber(row.total_minutes),
+		playerCount: coerceNumber(row.player_count),
+	};
+}
+
+export interface GamePlayerMinutesRow {
+	steamId: string;
+	minutes: number;
+}
+
+export async function listTopPlayersForGame(
+	appid: number,
+	limit: number,
+): Promise<GamePlayerMinutesRow[]> {
+	await ensureMaterializedAggregates();
+	const rows = await sql`
+		SELECT steam_id, minutes
+		FROM owned_games
+		WHERE appid = ${appid} AND minutes > 0
+			AND steam_id NOT IN (SELECT steam_id FROM hidden_profiles)
+		ORDER BY minutes DESC, steam_id ASC
+		LIMIT ${limit}
+	`;
+	return (rows as any[]).map((row) => ({
+		steamId: String(row.steam_id),
+		minutes: coerceNumber(row.minutes),
+	}));
+}
+
+export type GameCatalogueSort = "total" | "owners" | "average";
+
+export interface GameCatalogueQuery {
+	search?: string;
+	sort: GameCatalogueSort;
+	offset: number;
+	limit: number;
+}
+
+export interface GameCatalogueRow {
+	appid: number;
+	name: string;
+	totalMinutes: number;
+	ownerCount: number;
+	averageMinutes: number;
+}
+
+export async function listGameCatalogue(
+	query: GameCatalogueQuery,
+): Promise<{ total: number; rows: GameCatalogueRow[] }> {
+	await ensureMaterializedAggregates();
+
+	const search = query.search?.trim().toLowerCase() ?? "";
+	const pattern = `%${search.replace(/[\\%_]/g, (character) => `\\${character}`)}%`;
+	const filter = search
+		? sql`totals.total_minutes > 0 AND LOWER(totals.name) LIKE ${pattern} ESCAPE '\\'`
+		: sql`totals.total_minutes > 0`;
+	const ordering =
+		query.sort === "owners"
+			? sql`owner_count DESC, totals.total_minutes DESC, totals.appid ASC`
+			: query.sort === "average"
+				? sql`average_minutes DESC, totals.total_minutes DESC, totals.appid ASC`
+				: sql`totals.total_minutes DESC, totals.appid ASC`;
+
+	const [countRows, rows] = await Promise.all([
+		sql`
+			SELECT COUNT(*) AS count
+			FROM game_playtime_totals totals
+			WHERE ${filter}
+		`,
+		sql`
+			WITH owners AS (
+				SELECT appid, COUNT(*) AS owner_count
+				FROM owned_games
+				WHERE minutes > 0
+				GROUP BY appid
+			)
+			SELECT
+				totals.appid,
+				totals.name,
+				totals.total_minutes,
+				COALESCE(owners.owner_count, 0) AS owner_count,
+				CASE
+					WHEN COALESCE(owners.owner_count, 0) > 0 THEN totals.total_minutes * 1.0 / owners.owner_count
+					ELSE 0
+				END AS average_minutes
+			FROM game_playtime_totals totals
+			LEFT JOIN owners ON owners.appid = totals.appid
+			WHERE ${filter}
+			ORDER BY ${ordering}
+			LIMIT ${query.limit}
+			OFFSET ${query.offset}
+		`,
+	]);
+
+	return {
+		total: coerceNumber((countRows[0] as { count?: number | string | bigint | null } | undefined)?.count),
+		rows: (rows as any[]).flatMap((row) => {
+			const appid = sanitizeAppId(row.appid);
+			if (!appid) {
+				return [];
+			}
+			return [
+				{
+					appid,
+					name: typeof row.name === "string" ? row.name.trim() : "",
+					totalMinutes: coerceNumber(row.total_minutes),
+					ownerCount: coerceNumber(row.owner_count),
+					averageMinutes: Number(row.average_minutes ?? 0),
+				},
+			];
+		}),
+	};
+}
+
+export async function getCachedFriendList(steamId: string): Promise<string[] | null> {
+	const rows = await sql`
+		SELECT friends, fetched_at
+		FROM friend_list_cache
+		WHERE steam_id = ${steamId}
+		LIMIT 1
+	`;
+	const row = rows[0] as { friends: string; fetched_at: number } | undefined;
+	if (!row || nowSeconds() - row.fetched_at > FRIEND_LIST_TTL_SECONDS) {
+		return null;
+	}
+
+	try {
+		const parsed = JSON.parse(row.friends);
+		return Array.isArray(parsed)
+			? parsed.filter((value): value is string => typeof value === "string")
+			: null;
+	} catch (error) {
+		console.warn(`Discarding unreadable friend list for SteamID ${steamId}`, error);
+		return null;
+	}
+}
+
+export async function cacheFriendList(steamId: string, friendIds: string[]) {
+	const timestamp = nowSeconds();
+	const friends = JSON.stringify(friendIds);
+	await sql`
+		INSERT INTO friend_list_cache (steam_id, friends, fetched_at)
+		VALUES (${steamId}, ${friends}, ${timestamp})
+		ON CONFLICT(steam_id)
+		DO UPDATE SET friends = excluded.friends, fetched_at = excluded.fetched_at
+	`;
+}
+
+export type ProfileVisibility = "public" | "private";
+
+export interface PlayerSummary {
+	steamId: string;
+	personaName: string;
+	avatarUrl?: string;
+	profileVisibility: ProfileVisibility;
+}
+
+// The Web API only tells other keys 3 (public) or 1 (private); a friends-only
+// profile reads as private, so that is all it can be told apart as.
+const STEAM_PUBLIC_VISIBILITY_STATE = 3;
+
+const toProfileVisibility = (state: number): ProfileVisibility =>
+	state === STEAM_PUBLIC_VISIBILITY_STATE ? "public" : "private";
+
+export async function getCachedPlayerSummaries(
+	steamIds: string[],
+): Promise<Map<string, PlayerSummary>> {
+	const summaries = new Map<string, PlayerSummary>();
+	if (!steamIds.length) {
+		return summaries;
+	}
+
+	const threshold = nowSeconds() - PLAYER_SUMMARY_TTL_SECONDS;
+	const rows = await sql`
+		SELECT steam_id, persona_name, avatar_url, visibility
+		FROM player_summary_cache
+		WHERE steam_id IN ${sql(steamIds)} AND fetched_at >= ${threshold}
+	`;
+
+	for (const row of rows as any[]) {
+		const steamId = String(row.steam_id);
+		summaries.set(steamId, {
+			steamId,
+			personaName: String(row.persona_name),
+			avatarUrl:
+				typeof row.avatar_url === "string" && row.avatar_url ? row.avatar_url : undefined,
+			profileVisibility: toProfileVisibility(coerceNumber(row.visibility)),
+		});
+	}
+
+	return summaries;
+}
+
+export async function cachePlayerSummary(
+	steamId: string,
+	personaName: string,
+	avatarUrl: string | null,
+	visibility: number,
+) {
+	const timestamp = nowSeconds();
+	await sql`
+		INSERT INTO player_summary_cache (steam_id, persona_name, avatar_url, visibility, fetched_at)
+		VALUES (${steamId}, ${personaName}, ${avatarUrl}, ${visibility}, ${timestamp})
+		ON CONFLICT(steam_id)
+		DO UPDATE SET
+			persona_name = excluded.persona_name,
+			avatar_url = excluded.avatar_url,
+			visibility = excluded.visibility,
+			fetched_at = excluded.fetched_at
+	`;
+}
+
+export type PrivateProfileReason = "private" | "game_details_hidden";
+
+const PRIVATE_PROFILE_REASONS: readonly PrivateProfileReason[] = [
+	"private",
+	"game_details_hidden",
+];
+
+export async function getCachedPrivateProfile(
+	steamId: string,
+): Promise<PrivateProfileReason | null> {
+	const threshold = nowSeconds() - PRIVATE_PROFILE_TTL_SECONDS;
+	const rows = await sql`
+		SELECT reason
+		FROM private_profile_cache
+		WHERE steam_id = ${steamId} AND checked_at >= ${threshold}
+		LIMIT 1
+	`;
+	const reason = (rows[0] as { reason: string } | undefined)?.reason;
+	return PRIVATE_PROFILE_REASONS.find((value) => value === reason) ?? null;
+}
+
+// A profile that turned private must stop being served and ranked, so its
+// cached library goes with it. Callers only pass profiles Steam confirmed as
+// non-public; an empty response alone is not enough.
+export async function cachePrivateProfile(steamId: string, reason: PrivateProfileReason) {
+	const timestamp = nowSeconds();
+	await transaction(async (tx) => {
+		await removePlaytimeCacheEntry(tx, steamId);
+		await tx`
+			INSERT INTO private_profile_cache (steam_id, reason, checked_at)
+			VALUES (${steamId}, ${reason}, ${timestamp})
+			ON CONFLICT(steam_id)
+			DO UPDATE SET reason = excluded.reason, checked_at = excluded.checked_at
+		`;
+	});
+}
+
+export async function clearPrivateProfile(steamId: string) {
+	await sql`DELETE FROM private_profile_cache WHERE steam_id = ${steamId}`;
+}
+
+// Forces a full rebuild of the leaderboard tables from `playtime_cache`.
+export async function rebuildMaterializedAggregates() {
+	metricsDirty = true;
+	await ensureMaterializedAggregates();
+}
+
+export interface CachedProfileListing {
+	steamId: string;
+	fetchedAt: number;
+	gameCount: number;
+	totalMinutes: number;
+	hidden: boolean;
+}
+
+export async function listCachedProfiles(
+	limit: number,
+	offset = 0,
+): Promise<CachedProfileListing[]> {
+	const rows = await sql`
+		SELECT
+			pc.steam_id,
+			pc.fetched_at,
+			COALESCE(
+				pm.game_count,
+				(SELECT COUNT(*) FROM owned_games og WHERE og.steam_id = pc.steam_id)
+			) AS game_count,
+			COALESCE(pm.total_minutes, 0) AS total_minutes,
+			CASE WHEN hp.steam_id IS NULL THEN 0 ELSE 1 END AS hidden
+		FROM playtime_cache pc
+		LEFT JOIN playtime_metrics pm ON pm.steam_id = pc.steam_id
+		LEFT JOIN hidden_profiles hp ON hp.steam_id = pc.steam_id
+		ORDER BY pc.fetched_at DESC, pc.steam_id ASC
+		LIMIT ${limit} OFFSET ${offset}
+	`;
+	return (rows as any[]).map((row) => ({
+		steamId: String(row.steam_id),
+		fetchedAt: coerceNumber(row.fetched_at),
+		gameCount: coerceNumber(row.game_count),
+		totalMinutes: coerceNumber(row.total_minutes),
+		hidden: Boolean(coerceNumber(row.hidden)),
+	}));
+}
+
+export interface CachedProfileDetails {
+	steamId: string;
+	fetchedAt: number | null;
+	payload: CachedPlaytimePayload | null;
+	metrics: PlaytimeMetricsRow | null;
+	vanities: string[];
+	historySnapshotCount: number;
+	hidden: boolean;
+	privateReason: PrivateProfileReason | null;
+}
+
+export async function getCachedProfileDetails(
+	steamId: string,
+): Promise<CachedProfileDetails> {
+	const [cacheRows, metricsRows, vanityRows, historyRows, hiddenRows, privateReason] =
+		await Promise.all([
+			sql`SELECT fetched_at FROM playtime_cache WHERE steam_id = ${steamId} LIMIT 1`,
+			sql`
+				SELECT steam_id, fetched_at, game_count, total_minutes, average_minutes, top_game_appid, top_game_name, top_game_minutes, linux_minutes, games_over_100h
+				FROM playtime_metrics
+				WHERE steam_id = ${steamId}
+				LIMIT 1
+			`,
+			sql`SELECT vanity FROM vanity_cache WHERE steam_id = ${steamId} ORDER BY vanity`,
+			sql`SELECT COUNT(*) AS count FROM playtime_history WHERE steam_id = ${steamId}`,
+			sql`SELECT steam_id FROM hidden_profiles WHERE steam_id = ${steamId} LIMIT 1`,
+			getCachedPrivateProfile(steamId),
+		]);
+
+	const cacheRow = cacheRows[0] as { fetched_at: number } | undefined;
+	const payload = cacheRow
+		? ((await loadPlaytimePayloads([steamId])).get(steamId) ?? null)
+		: null;
+
+	return {
+		steamId,
+		fetchedAt: cacheRow ? coerceNumber(cacheRow.fetched_at) : null,
+		payload,
+		metrics: metricsRows[0] ? mapMetricsRow(metricsRows[0]) : null,
+		vanities: (vanityRows as any[]).map((row) => String(row.vanity)),
+		historySnapshotCount: coerceNumber(historyRows[0]?.count),
+		hidden: hiddenRows.length > 0,
+		privateReason,
+	};
+}
+
+// Removes everything stored about a profile, including vanities pointing at it.
+export async function purgeCachedProfile(steamId: string) {
+	await deletePlaytimeCacheEntry(steamId);
+	await sql`DELETE FROM playtime_history WHERE steam_id = ${steamId}`;
+	await sql`DELETE FROM playtime_refresh_locks WHERE steam_id = ${steamId}`;
+	await sql`DELETE FROM friend_list_cache WHERE steam_id = ${steamId}`;
+	await sql`DELETE FROM player_summary_cache WHERE steam_id = ${steamId}`;
+	await sql`DELETE FROM private_profile_cache WHERE steam_id = ${steamId}`;
+	await sql`DELETE FROM vanity_cache WHERE steam_id = ${steamId}`;
+}
+
+export async function setProfileHidden(steamId: string, hidden: boolean) {
+	if (hidden) {
+		await sql`
+			INSERT INTO hidden_profiles (steam_id, hidden_at)
+			VALUES (${steamId}, ${nowSeconds()})
+			ON CONFLICT(steam_id) DO NOTHING
+		`;
+		return;
+	}
+	await sql`DELETE FROM hidden_profiles WHERE steam_id = ${steamId}`;
+}
+
+export async function listHiddenProfiles(): Promise<{ steamId: string; hiddenAt: number }[]> {
+	const rows = await sql`
+		SELECT steam_id, hidden_at
+		FROM hidden_profiles
+		ORDER BY hidden_at DESC
+	`;
+	return (rows as any[]).map((row) => ({
+		steamId: String(row.steam_id),
+		hiddenAt: coerceNumber(row.hidden_at),
+	}));
+}
+
+// Friend leaderboards still fetch hidden friends' libraries like any other, so
+// they look up which of their members are hidden rather than filtering the rows.
+export async function listHiddenSteamIds(steamIds: string[]): Promise<Set<string>> {
+	if (!steamIds.length) {
+		return new Set();
+	}
+	const rows = await sql`
+		SELECT steam_id
+		FROM hidden_profiles
+		WHERE steam_id IN ${sql(steamIds)}
+	`;
+	return new Set((rows as any[]).map((row) => String(row.steam_id)));
+}
+
+const STATS_TABLES = [
+	"playtime_cache",
+	"playtime_metrics",
+	"game_playtime_totals",
+	"owned_games",
+	"playtime_history",
+	"vanity_cache",
+	"vanity_miss_cache",
+	"friend_list_cache",
+	"player_summary_cache",
+	"private_profile_cache",
+	"header_art_cache",
+	"hidden_profiles",
+	"admin_audit_log",
+] as const;
+
+export interface CacheStats {
+	tables: Record<string, number>;
+	expiredProfiles: number;
+	databaseBytes: number;
+}
+
+async function getDatabaseBytes() {
+	if (isPostgres) {
+		const [row] = await sql`SELECT pg_database_size(current_database()) AS size`;
+		return coerceNumber(row?.size);
+	}
+	const [pageCount] = await sql`PRAGMA page_count`;
+	const [pageSize] = await sql`PRAGMA page_size`;
+	return coerceNumber(pageCount?.page_count) * coerceNumber(pageSize?.page_size);
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+	const tables: Record<string, number> = {};
+	for (const table of STATS_TABLES) {
+		const rows = await sql`SELECT COUNT(*) AS count FROM ${sql(table)}`;
+		tables[table] = coerceNumber(rows[0]?.count);
+	}
+
+	return {
+		tables,
+		expiredProfiles: await countExpiredPlaytimeEntries(),
+		databaseBytes: await getDatabaseBytes(),
+	};
+}
+
+export interface CacheExport {
+	version: 1;
+	exportedAt: number;
+	profiles: { steamId: string; fetchedAt: number; payload: CachedPlaytimePayload }[];
+	vanities: { vanity: string; steamId: string; resolvedAt: number }[];
+	hiddenProfiles: { steamId: string; hiddenAt: number }[];
+}
+
+export async function exportCache(): Promise<CacheExport> {
+	const [profiles, vanityRows, hiddenProfiles] = await Promise.all([
+		listCachedPlaytimeRecords({ includeExpired: true }),
+		sql`SELECT vanity, steam_id, create_time FROM vanity_cache ORDER BY vanity`,
+		listHiddenProfiles(),
+	]);
+
+	return {
+		version: 1,
+		exportedAt: nowSeconds(),
+		profiles,
+		vanities: (vanityRows as any[]).map((row) => ({
+			vanity: String(row.vanity),
+			steamId: String(row.steam_id),
+			resolvedAt: coerceNumber(row.create_time),
+		})),
+		hiddenProfiles,
+	};
+}
+
+// Imported rows keep their original timestamps, so expired profiles stay
+// expired and get picked up by the background refresh.
+export async function importCache(data: CacheExport) {
+	if (data?.version !== 1) {
+		throw new Error("Unsupported cache export version.");
+	}
+
+	let profiles = 0;
+	await transaction(async (tx) => {
+		for (const profile of data.profiles ?? []) {
+			if (!/^\d{17}$/.test(profile.steamId) || !profile.payload?.game_count) {
+				continue;
+			}
+			await tx`
+				INSERT INTO playtime_cache (steam_id, fetched_at)
+				VALUES (${profile.steamId}, ${coerceNumber(profile.fetchedAt)})
+				ON CONFLICT(steam_id)
+				DO UPDATE SET fetched_at = excluded.fetched_at
+			`;
+			await replaceOwnedGames(
+				tx,
+				profile.steamId,
+				toOwnedGameRows(profile.steamId, profile.payload.games ?? []),
+			);
+			profiles++;
+		}
+		for (const entry of data.vanities ?? []) {
+			const vanity = normalizeVanity(entry.vanity ?? "");
+			if (!vanity || !/^\d{17}$/.test(entry.steamId)) {
+				continue;
+			}
+			await tx`
+				INSERT INTO vanity_cache (vanity, steam_id, create_time)
+				VALUES (${vanity}, ${entry.steamId}, ${coerceNumber(entry.resolvedAt)})
+				ON CONFLICT(vanity)
+				DO UPDATE SET steam_id = excluded.steam_id, create_time = excluded.create_time
+			`;
+		}
+		for (const entry of data.hiddenProfiles ?? []) {
+			await tx`
+				INSERT INTO hidden_profiles (steam_id, hidden_at)
+				VALUES (${entry.steamId}, ${coerceNumber(entry.hiddenAt)})
+				ON CONFLICT(steam_id) DO NOTHING
+			`;
+		}
+	});
+
+	await rebuildMaterializedAggregates();
+	return {
+		profiles,
+		vanities: data.vanities?.length ?? 0,
+		hiddenProfiles: data.hiddenProfiles?.length ?? 0,
+	};
+}
+
+export interface AdminAuditEntry {
+	actor: string;
+	action: string;
+	target: string | null;
+	// HTTP status of the admin request; null for CLI actions.
+	status: number | null;
+}
+
+export interface AdminAuditRecord extends AdminAuditEntry {
+	id: number;
+	createdAt: number;
+}
+
+export async function recordAdminAudit(entry: AdminAuditEntry) {
+	await sql`
+		INSERT INTO admin_audit_log (created_at, actor, action, target, status)
+		VALUES (${nowSeconds()}, ${entry.actor}, ${entry.action}, ${entry.target}, ${entry.status})
+	`;
+}
+
+export async function listAdminAuditLog(limit: number): Promise<AdminAuditRecord[]> {
+	const rows = await sql`
+		SELECT id, created_at, actor, action, target, status
+		FROM admin_audit_log
+		ORDER BY id DESC
+		LIMIT ${limit}
+	`;
+	return (rows as any[]).map((row) => ({
+		id: coerceNumber(row.id),
+		createdAt: coerceNumber(row.created_at),
+		actor: String(row.actor),
+		action: String(row.action),
+		target: typeof row.target === "string" ? row.target : null,
+		status: row.status === null ? null : coerceNumber(row.status),
+	}));
+}
+
+export function isMaterializedAggregatesReady() {
+	return materializedReady;
+}
+
+export async function pingDatabase() {
+	await sql`SELECT 1`;
+}
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { cachePlaytimePayload, setProfileHidden } from "~/server/database";
+import { getFriendLeaderboard } from "~/server/friends";
+import * as leaderboard from "~/server/leaderboard";
+import * as steam from "~/server/steam";
+
+const STEAM_ID = "76561198000000401";
+const VISIBLE_FRIEND = "76561198000000402";
+const HIDDEN_FRIEND = "76561198000000403";
+
+const library = (minutes: number) => ({
+	game_count: 1,
+	games: [{ appid: 570, name: "Dota 2", playtime_forever: minutes }],
+});
+
+describe("friend leaderboard", () => {
+	beforeEach(async () => {
+		await cachePlaytimePayload(STEAM_ID, library(600));
+		await cachePlaytimePayload(VISIBLE_FRIEND, library(1200));
+		await cachePlaytimePayload(HIDDEN_FRIEND, library(2400));
+		await setProfileHidden(HIDDEN_FRIEND, true);
+		spyOn(steam, "getFriendSteamIds").mockResolvedValue([VISIBLE_FRIEND, HIDDEN_FRIEND]);
+		spyOn(steam, "getPlaytimePayload").mockRejectedValue(new Error("unexpected fetch"));
+		spyOn(leaderboard, "attachPlayerSummaries").mockResolvedValue(undefined);
+	});
+
+	afterEach(async () => {
+		mock.restore();
+		await setProfileHidden(HIDDEN_FRIEND, false);
+	});
+
+	test("leaves hidden profiles off without refetching them", async () => {
+		const result = await getFriendLeaderboard(STEAM_ID);
+
+		expect(result.friendCount).toBe(2);
+		expect(result.rankedCount).toBe(2);
+		expect(result.pendingCount).toBe(0);
+		expect(result.metrics.byTotalPlaytime.map((entry) => entry.steamId)).toEqual([
+			VISIBLE_FRIEND,
+			STEAM_ID,
+		]);
+		expect(steam.getPlaytimePayload).not.toHaveBeenCalled();
+	});
+});
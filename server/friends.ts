@@ -0,0 +1,161 @@
+import { setBounded } from "~/server/bounded-cache";
+import {
+	listHiddenSteamIds,
+	listPlaytimeMetricsForSteamIds,
+	PLAYTIME_TTL_SECONDS,
+	type PlaytimeMetricsRow,
+} from "~/server/database";
+import {
+	attachPlayerSummaries,
+	toLeaderboardEntry,
+	type LeaderboardMetrics,
+} from "~/server/leaderboard";
+import { getFriendSteamIds, getPlaytimePayload } from "~/server/steam";
+
+export interface FriendLeaderboard {
+	generatedAt: number;
+	steamID: string;
+	friendCount: number;
+	rankedCount: number;
+	pendingCount: number;
+	metrics: LeaderboardMetrics;
+}
+
+const MAX_ROWS = 25;
+// Friends without cached playtime each cost a GetOwnedGames call, so a single
+// request only fetches this many; the rest show up on later loads.
+const MAX_FRIEND_FETCHES_PER_REQUEST = 50;
+const FRIEND_LEADERBOARD_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_FRIEND_LEADERBOARDS = 500;
+// Public but empty libraries are not stored in the playtime cache, so they are
+// remembered here instead of being refetched on every leaderboard miss.
+const EMPTY_LIBRARY_TTL_MS = PLAYTIME_TTL_SECONDS * 1000;
+const MAX_REMEMBERED_EMPTY_LIBRARIES = 5000;
+
+const cachedLeaderboards = new Map<
+	string,
+	{ expiresAt: number; leaderboard: FriendLeaderboard }
+>();
+const emptyLibraries = new Map<string, number>();
+
+function isKnownEmptyLibrary(steamID: string, now: number) {
+	const expiresAt = emptyLibraries.get(steamID);
+	if (expiresAt === undefined) {
+		return false;
+	}
+	if (expiresAt <= now) {
+		emptyLibraries.delete(steamID);
+		return false;
+	}
+	return true;
+}
+
+const byGameCount = (a: PlaytimeMetricsRow, b: PlaytimeMetricsRow) =>
+	b.gameCount - a.gameCount ||
+	b.totalMinutes - a.totalMinutes ||
+	a.steamId.localeCompare(b.steamId);
+
+const byTotalMinutes = (a: PlaytimeMetricsRow, b: PlaytimeMetricsRow) =>
+	b.totalMinutes - a.totalMinutes ||
+	b.gameCount - a.gameCount ||
+	a.steamId.localeCompare(b.steamId);
+
+const byAverageMinutes = (a: PlaytimeMetricsRow, b: PlaytimeMetricsRow) =>
+	b.averageMinutes - a.averageMinutes ||
+	b.totalMinutes - a.totalMinutes ||
+	a.steamId.localeCompare(b.steamId);
+
+const byLinuxMinutes = (a: PlaytimeMetricsRow, b: PlaytimeMetricsRow) =>
+	b.linuxMinutes - a.linuxMinutes ||
+	b.totalMinutes - a.totalMinutes ||
+	a.steamId.localeCompare(b.steamId);
+
+const rankBy = (
+	rows: PlaytimeMetricsRow[],
+	compare: (a: PlaytimeMetricsRow, b: PlaytimeMetricsRow) => number,
+) => [...rows].sort(compare).slice(0, MAX_ROWS).map(toLeaderboardEntry);
+
+export async function getFriendLeaderboard(
+	steamID: string,
+	apiKeyOverride?: string,
+): Promise<FriendLeaderboard> {
+	const now = Date.now();
+	const cached = cachedLeaderboards.get(steamID);
+	if (cached && cached.expiresAt > now) {
+		return cached.leaderboard;
+	}
+	if (cached) {
+		cachedLeaderboards.delete(steamID);
+	}
+
+	const friendIds = await getFriendSteamIds(steamID, apiKeyOverride);
+	// The requesting profile is ranked alongside its friends.
+	const steamIds = [...new Set([steamID, ...friendIds])];
+
+	const knownRows = await listPlaytimeMetricsForSteamIds(steamIds);
+	const knownIds = new Set(knownRows.map((row) => row.steamId));
+	const missingIds = steamIds.filter(
+		(id) => !knownIds.has(id) && !isKnownEmptyLibrary(id, now),
+	);
+	const fetchIds = missingIds.slice(0, MAX_FRIEND_FETCHES_PER_REQUEST);
+
+	// Private and empty libraries are simply left out of the ranking.
+	await Promise.allSettled(
+		fetchIds.map(async (id) => {
+			const payload = await getPlaytimePayload(id, apiKeyOverride);
+			if (!payload.game_count) {
+				setBounded(
+					emptyLibraries,
+					id,
+					now + EMPTY_LIBRARY_TTL_MS,
+					MAX_REMEMBERED_EMPTY_LIBRARIES,
+				);
+			}
+		}),
+	);
+
+	const [metricsRows, hiddenIds] = await Promise.all([
+		fetchIds.length ? listPlaytimeMetricsForSteamIds(steamIds) : knownRows,
+		listHiddenSteamIds(steamIds),
+	]);
+	// Hidden profiles stay off friend leaderboards as they do the global one.
+	const rows = metricsRows.filter((row) => !hiddenIds.has(row.steamId));
+
+	const leaderboard: FriendLeaderboard = {
+		generatedAt: Math.floor(now / 1000),
+		steamID,
+		friendCount: friendIds.length,
+		rankedCount: rows.length,
+		pendingCount: missingIds.length - fetchIds.length,
+		metrics: {
+			byGameCount: rankBy(rows, byGameCount),
+			byTotalPlaytime: rankBy(rows, byTotalMinutes),
+			byAveragePlaytime: rankBy(rows, byAverageMinutes),
+			byLinuxPlaytime: rankBy(
+				rows.filter((row) => row.linuxMinutes > 0),
+				byLinuxMinutes,
+			),
+		},
+	};
+
+	await attachPlayerSummaries(
+		[
+			...leaderboard.metrics.byGameCount,
+			...leaderboard.metrics.byTotalPlaytime,
+			...leaderboard.metrics.byAveragePlaytime,
+			...leaderboard.metrics.byLinuxPlaytime,
+		],
+		apiKeyOverride,
+	);
+
+	if (!leaderboard.pendingCount) {
+		setBounded(
+			cachedLeaderboards,
+			steamID,
+			{ leaderboard, expiresAt: now + FRIEND_LEADERBOARD_CACHE_TTL_MS },
+			MAX_CACHED_FRIEND_LEADERBOARDS,
+		);
+	}
+
+	return leaderboard;
+}
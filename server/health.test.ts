@@ -0,0 +1,39 @@
+import { afterEach, beforeAll, describe, expect, mock, spyOn, test } from "bun:test";
+import { ensureMaterializedAggregates } from "~/server/database";
+import { getReadinessReport } from "~/server/health";
+import * as steamKeyPool from "~/server/steam-key-pool";
+
+describe("readiness", () => {
+	beforeAll(async () => {
+		await ensureMaterializedAggregates();
+	});
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	test("is ready when the database, schema and leaderboard tables are", async () => {
+		const report = await getReadinessReport();
+
+		expect(report.ready).toBe(true);
+		expect(report.checks.database.ok).toBe(true);
+		expect(report.checks.migrations.ok).toBe(true);
+		expect(report.checks.aggregates.ok).toBe(true);
+	});
+
+	test("stays ready through a Steam outage and still reports it", async () => {
+		spyOn(steamKeyPool, "getSteamKeyPoolHealth").mockReturnValue({
+			configuredKeys: 3,
+			healthyKeys: 0,
+			recentRequests: 40,
+			recentFailures: 40,
+			windowSeconds: 300,
+		});
+
+		const report = await getReadinessReport();
+
+		expect(report.checks.steamKeys).toMatchObject({ ok: false, healthy: 0 });
+		expect(report.checks.steamFailures).toMatchObject({ ok: false, failures: 40 });
+		expect(report.ready).toBe(true);
+	});
+});
@@ -0,0 +1,117 @@
+import { isMaterializedAggregatesReady, pingDatabase } from "~/server/database";
+import { LATEST_SCHEMA_VERSION, planMigrations } from "~/server/migrations";
+import { getSteamKeyPoolHealth } from "~/server/steam-key-pool";
+
+// Too few calls say nothing about Steam's health, so the failure ratio only
+// counts once this many have been made in the window.
+const MIN_STEAM_REQUESTS_FOR_FAILURE_RATIO = 10;
+const MAX_STEAM_FAILURE_RATIO = 0.5;
+
+const startedAt = Date.now();
+
+export interface ReadinessCheck {
+	ok: boolean;
+	detail?: string;
+}
+
+export interface ReadinessReport {
+	ready: boolean;
+	checks: {
+		database: ReadinessCheck & { latencyMs?: number };
+		migrations: ReadinessCheck & { version?: number; latestVersion: number };
+		aggregates: ReadinessCheck;
+		steamKeys: ReadinessCheck & { configured: number; healthy: number };
+		steamFailures: ReadinessCheck & {
+			requests: number;
+			failures: number;
+			windowSeconds: number;
+		};
+	};
+}
+
+export function getLivenessReport() {
+	return {
+		status: "ok",
+		uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+	};
+}
+
+async function checkDatabase(): Promise<ReadinessReport["checks"]["database"]> {
+	const checkStartedAt = performance.now();
+	try {
+		await pingDatabase();
+		return { ok: true, latencyMs: Math.round(performance.now() - checkStartedAt) };
+	} catch (error) {
+		return {
+			ok: false,
+			detail: error instanceof Error ? error.message : "The database did not answer.",
+		};
+	}
+}
+
+async function checkMigrations(): Promise<ReadinessReport["checks"]["migrations"]> {
+	try {
+		const plan = await planMigrations();
+		return {
+			ok: plan.pending.length === 0,
+			version: plan.currentVersion,
+			latestVersion: LATEST_SCHEMA_VERSION,
+			detail: plan.pending.length
+				? `${plan.pending.length} schema migrations have not been applied.`
+				: undefined,
+		};
+	} catch (error) {
+		return {
+			ok: false,
+			latestVersion: LATEST_SCHEMA_VERSION,
+			detail: error instanceof Error ? error.message : "The schema version could not be read.",
+		};
+	}
+}
+
+export async function getReadinessReport(): Promise<ReadinessReport> {
+	const [database, migrations] = await Promise.all([checkDatabase(), checkMigrations()]);
+	const aggregatesReady = isMaterializedAggregatesReady();
+	const pool = getSteamKeyPoolHealth();
+	const failureRatio = pool.recentRequests > 0 ? pool.recentFailures / pool.recentRequests : 0;
+	const steamFailing =
+		pool.recentRequests >= MIN_STEAM_REQUESTS_FOR_FAILURE_RATIO &&
+		failureRatio > MAX_STEAM_FAILURE_RATIO;
+
+	const checks: ReadinessReport["checks"] = {
+		database,
+		migrations,
+		aggregates: aggregatesReady
+			? { ok: true }
+			: { ok: false, detail: "Leaderboard tables are still being built." },
+		steamKeys: {
+			ok: pool.healthyKeys > 0,
+			configured: pool.configuredKeys,
+			healthy: pool.healthyKeys,
+			detail:
+				pool.configuredKeys === 0
+					? "STEAM_API_KEY or STEAM_API_KEYS must be configured."
+					: pool.healthyKeys === 0
+						? "Every Steam API key is quarantined."
+						: undefined,
+		},
+		steamFailures: {
+			ok: !steamFailing,
+			requests: pool.recentRequests,
+			failures: pool.recentFailures,
+			windowSeconds: pool.windowSeconds,
+			detail: steamFailing
+				? `More than ${MAX_STEAM_FAILURE_RATIO * 100}% of recent Steam calls failed.`
+				: undefined,
+		},
+	};
+
+	// Only local dependencies decide readiness. A Steam outage or a rate-limited
+	// pool hits every replica at once, and taking them all out of rotation would
+	// also stop the stale cache from being served, so the Steam checks are
+	// reported but do not fail the probe.
+	return {
+		ready: database.ok && migrations.ok && checks.aggregates.ok,
+		checks,
+	};
+}
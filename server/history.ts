@@ -0,0 +1,118 @@
+import {
+	getPlaytimeHistorySnapshotAt,
+	listGameNames,
+	listPlaytimeHistorySnapshots,
+	type PlaytimeHistorySnapshot,
+	type PlaytimeHistorySnapshotSummary,
+} from "~/server/database";
+
+export interface PlaytimeHistoryGameDelta {
+	appid: number;
+	name?: string;
+	fromMinutes: number;
+	toMinutes: number;
+	deltaMinutes: number;
+}
+
+export interface PlaytimeHistoryReport {
+	snapshots: PlaytimeHistorySnapshotSummary[];
+	from: PlaytimeHistorySnapshotSummary | null;
+	to: PlaytimeHistorySnapshotSummary | null;
+	totalDeltaMinutes: number;
+	games: PlaytimeHistoryGameDelta[];
+}
+
+export interface PlaytimeHistoryRange {
+	from?: number;
+	to?: number;
+}
+
+function toSummary(
+	snapshot: PlaytimeHistorySnapshot,
+): PlaytimeHistorySnapshotSummary {
+	return {
+		fetchedAt: snapshot.fetchedAt,
+		gameCount: snapshot.gameCount,
+		totalMinutes: snapshot.totalMinutes,
+	};
+}
+
+function diffSnapshots(
+	from: PlaytimeHistorySnapshot,
+	to: PlaytimeHistorySnapshot,
+): PlaytimeHistoryGameDelta[] {
+	const appids = new Set([
+		...from.minutesByAppId.keys(),
+		...to.minutesByAppId.keys(),
+	]);
+	const deltas: PlaytimeHistoryGameDelta[] = [];
+
+	for (const appid of appids) {
+		const fromMinutes = from.minutesByAppId.get(appid) ?? 0;
+		const toMinutes = to.minutesByAppId.get(appid) ?? 0;
+		const deltaMinutes = toMinutes - fromMinutes;
+		if (!deltaMinutes) {
+			continue;
+		}
+		deltas.push({
+			appid,
+			fromMinutes,
+			toMinutes,
+			deltaMinutes,
+		});
+	}
+
+	return deltas.sort(
+		(a, b) => b.deltaMinutes - a.deltaMinutes || a.appid - b.appid,
+	);
+}
+
+export async function getPlaytimeHistoryReport(
+	steamId: string,
+	range: PlaytimeHistoryRange,
+): Promise<PlaytimeHistoryReport> {
+	const snapshots = await listPlaytimeHistorySnapshots(steamId);
+	const latest = snapshots[snapshots.length - 1];
+	const empty: PlaytimeHistoryReport = {
+		snapshots,
+		from: null,
+		to: null,
+		totalDeltaMinutes: 0,
+		games: [],
+	};
+
+	if (!latest) {
+		return empty;
+	}
+
+	const toSnapshot = await getPlaytimeHistorySnapshotAt(
+		steamId,
+		range.to ?? latest.fetchedAt,
+	);
+	if (!toSnapshot) {
+		return empty;
+	}
+
+	// Without an explicit start, compare against the snapshot just before `to`.
+	const fromSnapshot = await getPlaytimeHistorySnapshotAt(
+		steamId,
+		range.from ?? toSnapshot.fetchedAt - 1,
+	);
+	if (!fromSnapshot || fromSnapshot.fetchedAt >= toSnapshot.fetchedAt) {
+		return { ...empty, to: toSummary(toSnapshot) };
+	}
+
+	const games = diffSnapshots(fromSnapshot, toSnapshot);
+	const names = await listGameNames(games.map((game) => game.appid));
+	for (const game of games) {
+		game.name = names.get(game.appid);
+	}
+
+	return {
+		snapshots,
+		from: toSummary(fromSnapshot),
+		to: toSummary(toSnapshot),
+		totalDeltaMinutes: games.reduce((sum, game) => sum + game.deltaMinutes, 0),
+		games,
+	};
+}
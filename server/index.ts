@@ -1,10 +1,71 @@
 import "~/server/set-working-directory";
 import {
+	ensureMaterializedAggregates,
+	getManualRefreshAvailableAt,
+	MANUAL_REFRESH_COOLDOWN_SECONDS,
+} from "~/server/database";
+import {
+	getPlayerSummaries,
 	getPlaytimePayload,
+	getPlaytimeSnapshot,
 	getVanityResolution,
+	PLAYTIME_MODES,
+	PlaytimeRefreshCooldownError,
+	refreshPlaytimeSnapshot,
+	selectPlaytimeMode,
 	SteamIdentifierError,
+	SteamProfilePrivateError,
+	summarizePlatformPlaytime,
+	type PlaytimeMode,
+	type PlaytimeSnapshot,
+	type VanityResolutionSource,
 } from "~/server/steam";
-import { getLeaderboardSnapshot } from "~/server/leaderboard";
+import {
+	clearAdminLeaderboardCacheResponse,
+	deleteAdminProfileResponse,
+	getAdminSteamKeyStatusResponse,
+	invalidateAdminVanityResponse,
+	listAdminAuditLogResponse,
+	listAdminBlocklistResponse,
+	listAdminProfilesResponse,
+	rebuildAdminAggregatesResponse,
+	refreshAdminProfileResponse,
+	updateAdminBlocklistResponse,
+} from "~/server/admin-api";
+import {
+	DEFAULT_GAME_CATALOGUE_LIMIT,
+	GAME_CATALOGUE_SORTS,
+	getGameCataloguePage,
+	MAX_GAME_CATALOGUE_LIMIT,
+} from "~/server/catalogue";
+import { compareLibraries } from "~/server/compare";
+import { getFriendLeaderboard } from "~/server/friends";
+import { getLivenessReport, getReadinessReport } from "~/server/health";
+import { getPlaytimeHistoryReport } from "~/server/history";
+import { instrumentRoutes, renderMetrics } from "~/server/metrics";
+import { startBackgroundRefreshScheduler } from "~/server/scheduler";
+import { getSteamKeyPoolHealth, SteamKeyPoolError } from "~/server/steam-key-pool";
+import {
+	DEFAULT_LEADERBOARD_LIMIT,
+	getGameLeaderboard,
+	getLeaderboardPage,
+	getLeaderboardSnapshot,
+	LEADERBOARD_METRICS,
+	MAX_LEADERBOARD_LIMIT,
+} from "~/server/leaderboard";
+import {
+	DEFAULT_MOSAIC_HEIGHT,
+	DEFAULT_MOSAIC_WIDTH,
+	getMosaicPng,
+	MAX_MOSAIC_DIMENSION,
+	MIN_MOSAIC_DIMENSION,
+	MosaicRenderBusyError,
+	planMosaic,
+	renderMosaicSvg,
+} from "~/server/mosaic";
+import compareBundle from "~/templates/compare.html";
+import gameBundle from "~/templates/game.html";
+import gamesBundle from "~/templates/games.html";
 import leaderboardBundle from "~/templates/leaderboard.html";
 import profileBundle from "~/templates/profile.html";
 import rootBundle from "~/templates/root.html";
@@ -12,78 +73,524 @@ import rootBundle from "~/templates/root.html";
 const DEFAULT_PORT = Number(Bun.env.PORT ?? Bun.env.BUN_PORT ?? 3000);
 const developmentMode = Bun.env.NODE_ENV !== "production";
 
-if (!Bun.env.STEAM_API_KEY) {
-	console.warn("Missing STEAM_API_KEY. /api/playtime requests will fail.");
+if (getSteamKeyPoolHealth().configuredKeys === 0) {
+	console.warn(
+		"Missing STEAM_API_KEY or STEAM_API_KEYS. Only requests with a visitor's own key will work.",
+	);
 }
 
-type PlaytimePayloadLoader = (
+type PlaytimeSnapshotLoader = (
 	steamID: string,
 	apiKeyOverride?: string,
-) => Promise<{
-	game_count: number;
-	games: unknown[];
-}>;
+) => Promise<PlaytimeSnapshot>;
 
-async function createPlaytimeResponse(
+type IdentifierResolution =
+	| {
+		resolved: true;
+		steamID: string;
+		identifier: string;
+		source: VanityResolutionSource;
+	}
+	| { resolved: false; response: Response };
+
+async function resolveIdentifier(
 	identifier: string,
-	loadPayload: PlaytimePayloadLoader,
 	apiKeyOverride?: string,
-) {
+): Promise<IdentifierResolution> {
 	const trimmed = identifier.trim();
 
 	if (!trimmed) {
-		return Response.json(
-			{ error: "Steam identifier is required." },
-			{ status: 400 },
-		);
+		return {
+			resolved: false,
+			response: Response.json(
+				{ error: "Steam identifier is required." },
+				{ status: 400 },
+			),
+		};
 	}
 
-	let resolvedSteamID: string;
-
 	try {
-		resolvedSteamID = await getVanityResolution(trimmed, apiKeyOverride);
+		const { steamID, source } = await getVanityResolution(trimmed, apiKeyOverride);
+		return { resolved: true, steamID, identifier: trimmed, source };
 	} catch (error) {
 		if (error instanceof SteamIdentifierError) {
 			console.warn(
 				`Steam vanity resolution failed for "${trimmed}": ${error.message}`,
 			);
-			return Response.json(
-				{ error: error.message },
-				{ status: error.status },
-			);
+			return {
+				resolved: false,
+				response: Response.json(
+					{ error: error.message, resolutionSource: error.source },
+					{ status: error.status },
+				),
+			};
 		}
 
 		console.error(error);
+		return {
+			resolved: false,
+			response: Response.json(
+				{ error: "Unable to resolve the Steam identifier." },
+				{ status: 502 },
+			),
+		};
+	}
+}
+
+function parsePlaytimeModeParam(value: string | null): PlaytimeMode | null {
+	if (value === null || value.trim() === "") {
+		return "all";
+	}
+	return PLAYTIME_MODES.find((mode) => mode === value.trim()) ?? null;
+}
+
+const invalidPlaytimeModeResponse = () =>
+	Response.json(
+		{ error: `\`mode\` must be one of: ${PLAYTIME_MODES.join(", ")}.` },
+		{ status: 400 },
+	);
+
+// Private profiles, rejected visitor keys and an exhausted key pool carry
+// their own status; anything else is reported as a generic upstream failure.
+function playtimeFetchErrorResponse(error: unknown) {
+	if (error instanceof SteamProfilePrivateError) {
 		return Response.json(
-			{ error: "Unable to resolve the Steam identifier." },
-			{ status: 502 },
+			{
+				error: error.message,
+				code: "profile_private",
+				reason: error.reason,
+				guidance: error.guidance,
+			},
+			{ status: 403 },
 		);
 	}
 
+	if (error instanceof SteamKeyPoolError) {
+		return Response.json({ error: error.message }, { status: error.status });
+	}
+
+	console.error(error);
+	return Response.json(
+		{ error: "Unable to fetch playtime data from Steam." },
+		{ status: 502 },
+	);
+}
+
+async function createPlaytimeResponse(
+	identifier: string,
+	loadSnapshot: PlaytimeSnapshotLoader,
+	apiKeyOverride?: string,
+	mode: PlaytimeMode = "all",
+) {
+	const resolution = await resolveIdentifier(identifier, apiKeyOverride);
+	if (!resolution.resolved) {
+		return resolution.response;
+	}
+
+	const { steamID: resolvedSteamID, identifier: trimmed } = resolution;
+
 	try {
-		const payload = await loadPayload(resolvedSteamID, apiKeyOverride);
+		const { payload, fetchedAt, stale } = await loadSnapshot(
+			resolvedSteamID,
+			apiKeyOverride,
+		);
+		const [refreshAvailableAt, summaries] = await Promise.all([
+			getManualRefreshAvailableAt(resolvedSteamID, MANUAL_REFRESH_COOLDOWN_SECONDS),
+			getPlayerSummaries([resolvedSteamID], apiKeyOverride),
+		]);
+		const summary = summaries.get(resolvedSteamID);
 		return Response.json(
 			{
-				...payload,
+				...selectPlaytimeMode(payload, mode),
+				mode,
+				platforms: summarizePlatformPlaytime(payload),
 				steamID: resolvedSteamID,
 				resolvedFrom:
 					resolvedSteamID === trimmed ? undefined : trimmed,
+				resolutionSource: resolution.source,
+				personaName: summary?.personaName,
+				avatarUrl: summary?.avatarUrl,
+				profileVisibility: summary?.profileVisibility,
+				refreshAvailableAt,
+				stale,
+				fetchedAt,
+				ageSeconds: Math.max(0, Math.floor(Date.now() / 1000) - fetchedAt),
 			},
 			{
 				headers: {
-					"Cache-Control": "s-maxage=300, stale-while-revalidate=900",
+					// Stale data is being refreshed right now; let shared caches pick that up soon.
+					"Cache-Control": stale
+						? "s-maxage=60"
+						: "s-maxage=300, stale-while-revalidate=900",
 				},
 			},
 		);
 	} catch (error) {
-		console.error(error);
+		if (error instanceof PlaytimeRefreshCooldownError) {
+			return Response.json(
+				{
+					error: error.message,
+					retryAfterSeconds: error.retryAfterSeconds,
+				},
+				{
+					status: 429,
+					headers: {
+						"Retry-After": String(error.retryAfterSeconds),
+					},
+				},
+			);
+		}
+
+		return playtimeFetchErrorResponse(error);
+	}
+}
+
+function parseTimestampParam(value: string | null): number | undefined | null {
+	if (value === null || value.trim() === "") {
+		return undefined;
+	}
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+async function createHistoryResponse(req: Request, identifier: string) {
+	const searchParams = new URL(req.url).searchParams;
+	const from = parseTimestampParam(searchParams.get("from"));
+	const to = parseTimestampParam(searchParams.get("to"));
+
+	if (from === null || to === null) {
+		return Response.json(
+			{ error: "`from` and `to` must be Unix timestamps in seconds." },
+			{ status: 400 },
+		);
+	}
+
+	const resolution = await resolveIdentifier(identifier, getRequestApiKey(req));
+	if (!resolution.resolved) {
+		return resolution.response;
+	}
+
+	try {
+		const report = await getPlaytimeHistoryReport(resolution.steamID, {
+			from,
+			to,
+		});
+		return Response.json(
+			{ ...report, steamID: resolution.steamID },
+			{
+				headers: {
+					"Cache-Control": "no-store",
+				},
+			},
+		);
+	} catch (error) {
+		console.error("Failed to load playtime history", error);
+		return Response.json(
+			{ error: "Unable to load playtime history right now." },
+			{ status: 500 },
+		);
+	}
+}
+
+function parseDimensionParam(value: string | null, fallback: number): number | null {
+	if (value === null || value.trim() === "") {
+		return fallback;
+	}
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed)) {
+		return null;
+	}
+	return Math.min(MAX_MOSAIC_DIMENSION, Math.max(MIN_MOSAIC_DIMENSION, parsed));
+}
+
+async function createMosaicResponse(req: Request, filename: string) {
+	const extensionIndex = filename.lastIndexOf(".");
+	const identifier = extensionIndex > 0 ? filename.slice(0, extensionIndex) : "";
+	const extension = filename.slice(extensionIndex + 1).toLowerCase();
+
+	if (!identifier || (extension !== "png" && extension !== "svg")) {
+		return new Response("Not Found", { status: 404 });
+	}
+
+	const searchParams = new URL(req.url).searchParams;
+	const width = parseDimensionParam(searchParams.get("width"), DEFAULT_MOSAIC_WIDTH);
+	const height = parseDimensionParam(searchParams.get("height"), DEFAULT_MOSAIC_HEIGHT);
+
+	if (width === null || height === null) {
+		return Response.json(
+			{ error: "`width` and `height` must be whole numbers of pixels." },
+			{ status: 400 },
+		);
+	}
+
+	const mode = parsePlaytimeModeParam(searchParams.get("mode"));
+	if (mode === null) {
+		return invalidPlaytimeModeResponse();
+	}
+
+	const apiKeyOverride = getRequestApiKey(req);
+	const resolution = await resolveIdentifier(identifier, apiKeyOverride);
+	if (!resolution.resolved) {
+		return resolution.response;
+	}
+
+	let payload: Awaited<ReturnType<typeof getPlaytimePayload>>;
+	try {
+		payload = await getPlaytimePayload(resolution.steamID, apiKeyOverride);
+	} catch (error) {
+		return playtimeFetchErrorResponse(error);
+	}
+
+	if (extension === "svg") {
+		const plan = planMosaic(payload, { width, height }, mode);
+		if (!plan.tiles.length) {
+			return Response.json(
+				{ error: "No games with recorded playtime to render." },
+				{ status: 404 },
+			);
+		}
+		return new Response(renderMosaicSvg(plan), {
+			headers: {
+				"Content-Type": "image/svg+xml; charset=utf-8",
+				"Cache-Control": "public, max-age=600",
+			},
+		});
+	}
+
+	try {
+		const image = await getMosaicPng(
+			resolution.steamID,
+			payload,
+			{ width, height },
+			mode,
+		);
+		if (!image) {
+			return Response.json(
+				{ error: "No games with recorded playtime to render." },
+				{ status: 404 },
+			);
+		}
+		return new Response(image, {
+			headers: {
+				"Content-Type": "image/png",
+				"Cache-Control": "public, max-age=600",
+			},
+		});
+	} catch (error) {
+		if (error instanceof MosaicRenderBusyError) {
+			return Response.json(
+				{ error: error.message },
+				{
+					status: 503,
+					headers: {
+						"Retry-After": String(error.retryAfterSeconds),
+					},
+				},
+			);
+		}
+		console.error("Failed to render mosaic", error);
+		return Response.json(
+			{ error: "Unable to render the mosaic right now." },
+			{ status: 500 },
+		);
+	}
+}
+
+async function createCompareResponse(
+	req: Request,
+	identifierA: string,
+	identifierB: string,
+) {
+	const apiKeyOverride = getRequestApiKey(req);
+	const [resolutionA, resolutionB] = await Promise.all([
+		resolveIdentifier(identifierA, apiKeyOverride),
+		resolveIdentifier(identifierB, apiKeyOverride),
+	]);
+	if (!resolutionA.resolved) {
+		return resolutionA.response;
+	}
+	if (!resolutionB.resolved) {
+		return resolutionB.response;
+	}
+
+	try {
+		const [payloadA, payloadB] = await Promise.all([
+			getPlaytimePayload(resolutionA.steamID, apiKeyOverride),
+			getPlaytimePayload(resolutionB.steamID, apiKeyOverride),
+		]);
+		const comparison = compareLibraries(
+			{
+				steamID: resolutionA.steamID,
+				resolvedFrom:
+					resolutionA.steamID === resolutionA.identifier
+						? undefined
+						: resolutionA.identifier,
+				payload: payloadA,
+			},
+			{
+				steamID: resolutionB.steamID,
+				resolvedFrom:
+					resolutionB.steamID === resolutionB.identifier
+						? undefined
+						: resolutionB.identifier,
+				payload: payloadB,
+			},
+		);
+		return Response.json(comparison, {
+			headers: {
+				"Cache-Control": "s-maxage=300, stale-while-revalidate=900",
+			},
+		});
+	} catch (error) {
+		return playtimeFetchErrorResponse(error);
+	}
+}
+
+async function createFriendLeaderboardResponse(req: Request, identifier: string) {
+	const apiKeyOverride = getRequestApiKey(req);
+	const resolution = await resolveIdentifier(identifier, apiKeyOverride);
+	if (!resolution.resolved) {
+		return resolution.response;
+	}
+
+	try {
+		const leaderboard = await getFriendLeaderboard(
+			resolution.steamID,
+			apiKeyOverride,
+		);
+		return Response.json(leaderboard, {
+			headers: {
+				"Cache-Control": "no-store",
+			},
+		});
+	} catch (error) {
+		if (error instanceof SteamIdentifierError || error instanceof SteamKeyPoolError) {
+			return Response.json({ error: error.message }, { status: error.status });
+		}
+
+		console.error("Failed to load friend leaderboard", error);
 		return Response.json(
-			{ error: "Unable to fetch playtime data from Steam." },
+			{ error: "Unable to load the friend leaderboard right now." },
 			{ status: 502 },
 		);
 	}
 }
 
+function parseCountParam(value: string | null, fallback: number): number | null {
+	if (value === null || value.trim() === "") {
+		return fallback;
+	}
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+async function createGameCatalogueResponse(req: Request) {
+	const searchParams = new URL(req.url).searchParams;
+	const query = (searchParams.get("query") ?? "").trim();
+	const sort = searchParams.get("sort") || "total";
+	const offset = parseCountParam(searchParams.get("offset"), 0);
+	const limit = parseCountParam(
+		searchParams.get("limit"),
+		DEFAULT_GAME_CATALOGUE_LIMIT,
+	);
+
+	if (!GAME_CATALOGUE_SORTS.some((option) => option === sort)) {
+		return Response.json(
+			{ error: `\`sort\` must be one of: ${GAME_CATALOGUE_SORTS.join(", ")}.` },
+			{ status: 400 },
+		);
+	}
+
+	if (offset === null || limit === null || limit === 0) {
+		return Response.json(
+			{ error: "`offset` and `limit` must be non-negative integers, and `limit` at least 1." },
+			{ status: 400 },
+		);
+	}
+
+	if (query.length > 100) {
+		return Response.json(
+			{ error: "`query` must be at most 100 characters." },
+			{ status: 400 },
+		);
+	}
+
+	try {
+		const page = await getGameCataloguePage({
+			query,
+			sort: sort as (typeof GAME_CATALOGUE_SORTS)[number],
+			offset,
+			limit: Math.min(limit, MAX_GAME_CATALOGUE_LIMIT),
+		});
+		return Response.json(page, {
+			headers: {
+				"Cache-Control": "no-store",
+			},
+		});
+	} catch (error) {
+		console.error("Failed to load game catalogue", error);
+		return Response.json(
+			{ error: "Unable to load the game catalogue right now." },
+			{ status: 500 },
+		);
+	}
+}
+
+async function createLeaderboardResponse(req: Request) {
+	const searchParams = new URL(req.url).searchParams;
+	const metric = searchParams.get("metric");
+
+	if (metric !== null && !LEADERBOARD_METRICS.some((option) => option === metric)) {
+		return Response.json(
+			{ error: `\`metric\` must be one of: ${LEADERBOARD_METRICS.join(", ")}.` },
+			{ status: 400 },
+		);
+	}
+
+	const offset = parseCountParam(searchParams.get("offset"), 0);
+	const limit = parseCountParam(searchParams.get("limit"), DEFAULT_LEADERBOARD_LIMIT);
+	const minGames = parseCountParam(searchParams.get("minGames"), 0);
+	if (offset === null || limit === null || limit === 0 || minGames === null) {
+		return Response.json(
+			{
+				error: "`offset`, `limit` and `minGames` must be non-negative integers, and `limit` at least 1.",
+			},
+			{ status: 400 },
+		);
+	}
+	const page = { offset, limit: Math.min(limit, MAX_LEADERBOARD_LIMIT), minGames };
+
+	try {
+		// Without a metric the response holds the same page of every metric plus
+		// the site-wide summary, which is what /leaderboard loads first.
+		const body =
+			metric === null
+				? await getLeaderboardSnapshot(page)
+				: await getLeaderboardPage({
+					...page,
+					metric: metric as (typeof LEADERBOARD_METRICS)[number],
+				});
+		return Response.json(body, {
+			headers: {
+				"Cache-Control": "no-store",
+			},
+		});
+	} catch (error) {
+		console.error("Failed to load leaderboard", error);
+		return Response.json(
+			{ error: "Unable to load leaderboard right now." },
+			{ status: 500 },
+		);
+	}
+}
+
+function getRequestApiKey(req: Request) {
+	return (
+		new URL(req.url).searchParams.get("api_key") ||
+		req.headers.get("X-Steam-API-Key") ||
+		undefined
+	);
+}
 
 const server = Bun.serve({
 	port: DEFAULT_PORT,
@@ -93,44 +600,211 @@ const server = Bun.serve({
 			console: true,
 		}
 		: false,
-	routes: {
+	routes: instrumentRoutes({
+		"/healthz": {
+			GET: async () => {
+				return Response.json(getLivenessReport(), {
+					headers: {
+						"Cache-Control": "no-store",
+					},
+				});
+			},
+		},
+		"/readyz": {
+			GET: async () => {
+				const report = await getReadinessReport();
+				return Response.json(
+					{ status: report.ready ? "ready" : "not_ready", checks: report.checks },
+					{
+						status: report.ready ? 200 : 503,
+						headers: {
+							"Cache-Control": "no-store",
+						},
+					},
+				);
+			},
+		},
+		"/metrics": {
+			GET: async () => {
+				return new Response(await renderMetrics(), {
+					headers: {
+						"Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+						"Cache-Control": "no-store",
+					},
+				});
+			},
+		},
 		"/api/playtime/:identifier": {
 			GET: async (req) => {
-				const apiKey = new URL(req.url).searchParams.get('api_key') ||
-							   req.headers.get('X-Steam-API-Key') ||
-							   undefined;
+				const mode = parsePlaytimeModeParam(new URL(req.url).searchParams.get("mode"));
+				if (mode === null) {
+					return invalidPlaytimeModeResponse();
+				}
 				return createPlaytimeResponse(
 					req.params.identifier ?? "",
-					(steamID, apiKeyOverride) => getPlaytimePayload(steamID, apiKeyOverride),
-					apiKey
+					(steamID, apiKeyOverride) => getPlaytimeSnapshot(steamID, apiKeyOverride),
+					getRequestApiKey(req),
+					mode,
 				);
 			},
 		},
-		"/leaderboard": leaderboardBundle,
-		"/api/leaderboard": {
-			GET: async () => {
+		"/api/playtime/:identifier/refresh": {
+			POST: async (req) => {
+				return createPlaytimeResponse(
+					req.params.identifier ?? "",
+					(steamID, apiKeyOverride) =>
+						refreshPlaytimeSnapshot(steamID, apiKeyOverride),
+					getRequestApiKey(req),
+				);
+			},
+		},
+		"/api/playtime/:identifier/history": {
+			GET: async (req) => {
+				return createHistoryResponse(req, req.params.identifier ?? "");
+			},
+		},
+		"/api/mosaic/:filename": {
+			GET: async (req) => {
+				return createMosaicResponse(req, req.params.filename ?? "");
+			},
+		},
+		"/api/compare/:a/:b": {
+			GET: async (req) => {
+				return createCompareResponse(req, req.params.a ?? "", req.params.b ?? "");
+			},
+		},
+		"/compare/:a/:b": compareBundle,
+		"/api/friends/:identifier/leaderboard": {
+			GET: async (req) => {
+				return createFriendLeaderboardResponse(req, req.params.identifier ?? "");
+			},
+		},
+		"/api/games": {
+			GET: async (req) => {
+				return createGameCatalogueResponse(req);
+			},
+		},
+		"/api/games/:appid/leaderboard": {
+			GET: async (req) => {
+				const appid = Number(req.params.appid);
+				if (!Number.isInteger(appid) || appid <= 0) {
+					return Response.json(
+						{ error: "A numeric Steam app ID is required." },
+						{ status: 400 },
+					);
+				}
+
 				try {
-					const snapshot = await getLeaderboardSnapshot();
-					return Response.json(snapshot, {
+					const leaderboard = await getGameLeaderboard(appid);
+					if (!leaderboard) {
+						return Response.json(
+							{ error: "No tracked profiles have played this game." },
+							{ status: 404 },
+						);
+					}
+					return Response.json(leaderboard, {
 						headers: {
 							"Cache-Control": "no-store",
 						},
 					});
 				} catch (error) {
-					console.error("Failed to load leaderboard snapshot", error);
+					console.error("Failed to load game leaderboard", error);
 					return Response.json(
-						{ error: "Unable to load leaderboard right now." },
+						{ error: "Unable to load this game's leaderboard right now." },
 						{ status: 500 },
 					);
 				}
 			},
 		},
+		"/api/admin/profiles": {
+			GET: async (req, server) => {
+				return listAdminProfilesResponse(req, server);
+			},
+		},
+		"/api/admin/profiles/:steamID": {
+			DELETE: async (req, server) => {
+				return deleteAdminProfileResponse(req, server, req.params.steamID ?? "");
+			},
+		},
+		"/api/admin/profiles/:steamID/refresh": {
+			POST: async (req, server) => {
+				return refreshAdminProfileResponse(req, server, req.params.steamID ?? "");
+			},
+		},
+		"/api/admin/aggregates/rebuild": {
+			POST: async (req, server) => {
+				return rebuildAdminAggregatesResponse(req, server);
+			},
+		},
+		"/api/admin/leaderboard/cache": {
+			DELETE: async (req, server) => {
+				return clearAdminLeaderboardCacheResponse(req, server);
+			},
+		},
+		"/api/admin/blocklist": {
+			GET: async (req, server) => {
+				return listAdminBlocklistResponse(req, server);
+			},
+		},
+		"/api/admin/blocklist/:steamID": {
+			PUT: async (req, server) => {
+				return updateAdminBlocklistResponse(req, server, req.params.steamID ?? "", true);
+			},
+			DELETE: async (req, server) => {
+				return updateAdminBlocklistResponse(req, server, req.params.steamID ?? "", false);
+			},
+		},
+		"/api/admin/vanity/:vanity": {
+			DELETE: async (req, server) => {
+				return invalidateAdminVanityResponse(req, server, req.params.vanity ?? "");
+			},
+		},
+		"/api/admin/steam-keys": {
+			GET: async (req, server) => {
+				return getAdminSteamKeyStatusResponse(req, server);
+			},
+		},
+		"/api/admin/audit": {
+			GET: async (req, server) => {
+				return listAdminAuditLogResponse(req, server);
+			},
+		},
+		"/games": gamesBundle,
+		"/games/:appid": gameBundle,
+		"/leaderboard": leaderboardBundle,
+		"/api/leaderboard": {
+			GET: async (req) => {
+				return createLeaderboardResponse(req);
+			},
+		},
 		"/": rootBundle,
 		"/:steamID": profileBundle,
-	},
+	}),
 	fetch() {
 		return new Response("Not Found", { status: 404 });
 	},
 });
 
 console.log(`playtime-panorama server running on ${server.url}...`);
+
+// Build the leaderboard tables up front so /readyz can turn ready without
+// waiting for the first leaderboard visit.
+ensureMaterializedAggregates().catch((error) => {
+	console.error("Failed to build materialized aggregates", error);
+});
+
+const backgroundRefresh = startBackgroundRefreshScheduler();
+
+let shuttingDown = false;
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+	process.on(signal, async () => {
+		if (shuttingDown) {
+			return;
+		}
+		shuttingDown = true;
+		console.log(`Received ${signal}, shutting down...`);
+		await backgroundRefresh.stop();
+		await server.stop();
+		process.exit(0);
+	});
+}
@@ -0,0 +1,216 @@
+// The grid layout behind both the profile page (templates/profile.js imports
+// it) and the PNG mosaics, so exported images match what the page renders.
+// It runs in the browser too, so it must not import anything server-only.
+
+export const HEADER_ASPECT = 460 / 215;
+
+export interface GridLayoutItem {
+	id: number;
+	hours: number;
+}
+
+export interface GridLayoutCell {
+	id: number;
+	span: number;
+	order: number;
+	areaRatio: number;
+}
+
+export interface GridLayout {
+	columns: number;
+	rowHeight: number;
+	cells: GridLayoutCell[];
+}
+
+export interface GridPlacement {
+	id: number;
+	span: number;
+	column: number;
+	row: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+	Math.min(max, Math.max(min, value));
+
+export function computeGridLayout(
+	items: GridLayoutItem[],
+	stageWidth: number,
+	stageHeight: number,
+): GridLayout {
+	if (!items.length || stageWidth <= 0) {
+		return {
+			columns: 1,
+			rowHeight: 0,
+			cells: [],
+		};
+	}
+
+	const TARGET_CARD_WIDTH = 44;
+	const MAX_CARD_WIDTH = 240;
+	const minColumnsBound = Math.max(4, Math.ceil(stageWidth / MAX_CARD_WIDTH));
+	const maxColumnsBound = Math.max(minColumnsBound, Math.min(72, items.length));
+	const stageBaseHeight = stageHeight > 0 ? stageHeight : 0;
+	const maxHeight = Math.max(stageBaseHeight, 480);
+	const targetHeight = stageBaseHeight > 0 ? stageBaseHeight * 0.94 : maxHeight;
+
+	let columns = clamp(
+		Math.round(stageWidth / TARGET_CARD_WIDTH),
+		minColumnsBound,
+		maxColumnsBound,
+	);
+
+	let layout: GridLayout = { columns, rowHeight: 0, cells: [] };
+	let bestLayout: GridLayout | null = null;
+	const MAX_ITERATIONS = 8;
+	const weightBias = 0.1;
+	const weightExponent = 0.62;
+	const disparityCurve = 1.35;
+
+	for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+		const columnWidth = stageWidth / columns;
+		const rowHeight = Math.max(columnWidth / HEADER_ASPECT, 10);
+		const computedMaxSpan = Math.floor(columns / 6) + 3;
+		const maxSpan = clamp(computedMaxSpan, 4, Math.min(columns, 12));
+		const minSpan = 1;
+		const maxArea = maxSpan * maxSpan;
+
+		const areaWeights = items.map((item) =>
+			Math.pow(Math.max(item.hours, 0) + weightBias, weightExponent),
+		);
+		const maxWeight = areaWeights.reduce(
+			(max, weight) => Math.max(max, weight),
+			0.0001,
+		);
+
+		const cells: GridLayoutCell[] = items.map((item, index) => {
+			const weight = areaWeights[index] ?? 0;
+			const ratio = Math.max(0, weight / maxWeight);
+			const adjusted = Math.pow(ratio, disparityCurve);
+			const targetArea = 1 + adjusted * (maxArea - 1);
+			const span = clamp(Math.round(Math.sqrt(targetArea)), minSpan, maxSpan);
+			return { id: item.id, span, order: index, areaRatio: ratio };
+		});
+
+		const firstCell = cells[0];
+		if (firstCell && maxSpan > 1) {
+			firstCell.span = Math.max(firstCell.span, maxSpan);
+			for (let i = 1; i < Math.min(3, cells.length); i++) {
+				const cell = cells[i];
+				if (cell && cell.areaRatio >= 0.5) {
+					const target = Math.round(
+						minSpan + cell.areaRatio * (maxSpan - minSpan),
+					);
+					cell.span = clamp(target, cell.span, maxSpan - i);
+				}
+			}
+		}
+
+		const totalArea = cells.reduce((acc, cell) => acc + cell.span * cell.span, 0);
+		const approxHeight =
+			(totalArea * stageWidth) / (columns * columns * HEADER_ASPECT);
+
+		const candidateLayout: GridLayout = { columns, rowHeight, cells };
+
+		if (approxHeight > maxHeight * 1.02 && columns < maxColumnsBound) {
+			const requiredColumns = clamp(
+				Math.round(
+					Math.sqrt((totalArea * stageWidth) / (maxHeight * HEADER_ASPECT)),
+				),
+				columns + 1,
+				maxColumnsBound,
+			);
+
+			if (requiredColumns !== columns) {
+				bestLayout = candidateLayout;
+				columns = requiredColumns;
+				continue;
+			}
+		}
+
+		if (
+			stageBaseHeight > 0 &&
+			approxHeight < targetHeight * 0.82 &&
+			columns > minColumnsBound
+		) {
+			const desiredColumns = clamp(
+				Math.round(
+					Math.sqrt((totalArea * stageWidth) / (targetHeight * HEADER_ASPECT)),
+				),
+				minColumnsBound,
+				columns - 1,
+			);
+			if (desiredColumns !== columns) {
+				bestLayout = candidateLayout;
+				columns = desiredColumns;
+				continue;
+			}
+		}
+
+		layout = candidateLayout;
+		break;
+	}
+
+	if ((!layout.cells.length || layout.rowHeight <= 0) && bestLayout) {
+		layout = bestLayout;
+	}
+
+	return layout;
+}
+
+// Mirrors CSS Grid auto-placement with `grid-auto-flow: dense`: every cell
+// takes the first free slot scanning rows top to bottom, left to right.
+export function placeGridCells(layout: GridLayout): GridPlacement[] {
+	const columns = Math.max(1, layout.columns);
+	const occupied: Uint8Array[] = [];
+	const placements: GridPlacement[] = [];
+	let firstOpenRow = 0;
+
+	const isFree = (row: number, column: number, span: number) => {
+		for (let r = row; r < row + span; r++) {
+			const cells = occupied[r];
+			if (!cells) {
+				continue;
+			}
+			for (let c = column; c < column + span; c++) {
+				if (cells[c]) {
+					return false;
+				}
+			}
+		}
+		return true;
+	};
+
+	for (const cell of layout.cells) {
+		const span = clamp(cell.span, 1, columns);
+		let placed = false;
+
+		for (let row = firstOpenRow; !placed; row++) {
+			for (let column = 0; column + span <= columns; column++) {
+				if (!isFree(row, column, span)) {
+					continue;
+				}
+
+				for (let r = row; r < row + span; r++) {
+					const cells = (occupied[r] ??= new Uint8Array(columns));
+					cells.fill(1, column, column + span);
+				}
+				placements.push({ id: cell.id, span, column, row });
+				placed = true;
+				break;
+			}
+		}
+
+		while (occupied[firstOpenRow]?.every(Boolean)) {
+			firstOpenRow++;
+		}
+	}
+
+	return placements;
+}
+
+export function countGridRows(placements: GridPlacement[]): number {
+	return placements.reduce(
+		(rows, placement) => Math.max(rows, placement.row + placement.span),
+		0,
+	);
+}
@@ -1,20 +1,30 @@
+import { setBounded } from "~/server/bounded-cache";
 import {
 	countPlaytimeCacheEntries,
 	getAggregateTopGame,
+	getGamePlaytimeTotal,
 	getLeaderboardAggregates,
 	getUniqueTrackedGameCount,
-	listPlaytimeMetricsByAverageMinutes,
-	listPlaytimeMetricsByGameCount,
-	listPlaytimeMetricsByTotalMinutes,
+	listPlaytimeMetricsPage,
+	listTopPlayersForGame,
+	type LeaderboardMetric,
 	type PlaytimeMetricsRow,
 } from "~/server/database";
+import { Histogram } from "~/server/metrics";
+import { getPlayerSummaries } from "~/server/steam";
 
-interface LeaderboardEntry {
+export interface LeaderboardEntry {
 	steamId: string;
+	personaName?: string;
+	avatarUrl?: string;
 	profileHref: string;
 	gameCount: number;
 	totalMinutes: number;
 	averageMinutes: number;
+	linuxMinutes: number;
+	gamesOver100Hours: number;
+	// Fraction of total playtime spent in the most-played game.
+	topGameShare: number;
 	lastUpdated: number;
 	topGame?: {
 		appid: number;
@@ -27,6 +37,13 @@ export interface LeaderboardMetrics {
 	byGameCount: LeaderboardEntry[];
 	byTotalPlaytime: LeaderboardEntry[];
 	byAveragePlaytime: LeaderboardEntry[];
+	byLinuxPlaytime: LeaderboardEntry[];
+}
+
+export interface LeaderboardSnapshotMetrics extends LeaderboardMetrics {
+	byTopGameShare: LeaderboardEntry[];
+	byGamesOver100Hours: LeaderboardEntry[];
+	byRecentlyUpdated: LeaderboardEntry[];
 }
 
 export interface LeaderboardSummary {
@@ -43,24 +60,93 @@ export interface LeaderboardSummary {
 
 export interface LeaderboardSnapshot {
 	generatedAt: number;
-	metrics: LeaderboardMetrics;
+	metrics: LeaderboardSnapshotMetrics;
 	playtimeCacheSize: number;
 	summary: LeaderboardSummary;
 }
 
-const MAX_ROWS = 25;
+export interface RankedLeaderboardEntry extends LeaderboardEntry {
+	rank: number;
+}
+
+export interface LeaderboardPageRequest {
+	metric: LeaderboardMetric;
+	offset: number;
+	limit: number;
+	minGames: number;
+}
+
+export interface LeaderboardPage extends LeaderboardPageRequest {
+	generatedAt: number;
+	total: number;
+	entries: RankedLeaderboardEntry[];
+}
+
+export interface GameLeaderboardEntry {
+	rank: number;
+	steamId: string;
+	personaName?: string;
+	avatarUrl?: string;
+	profileHref: string;
+	minutes: number;
+	share: number;
+}
+
+export interface GameLeaderboard {
+	generatedAt: number;
+	appid: number;
+	name: string;
+	totalMinutes: number;
+	playerCount: number;
+	entries: GameLeaderboardEntry[];
+}
+
+export const LEADERBOARD_METRICS: readonly LeaderboardMetric[] = [
+	"game_count",
+	"total_playtime",
+	"average_playtime",
+	"linux_playtime",
+	"top_game_share",
+	"games_over_100h",
+	"recently_updated",
+];
+export const DEFAULT_LEADERBOARD_LIMIT = 25;
+export const MAX_LEADERBOARD_LIMIT = 100;
+
+const MAX_GAME_LEADERBOARD_ROWS = 50;
 const LEADERBOARD_CACHE_TTL_MS = 5 * 60 * 1000;
+// Every metric/offset/limit/minGames combination is cached separately, so the
+// map is capped; the oldest pages are evicted first.
+const MAX_CACHED_PAGES = 500;
+
+const snapshotRebuildDuration = new Histogram(
+	"leaderboard_snapshot_rebuild_seconds",
+	"Time taken to rebuild a cached leaderboard page, labelled by metric (or summary).",
+);
 
-let cachedSnapshot: LeaderboardSnapshot | null = null;
-let cachedSnapshotExpiry = 0;
+const cachedPages = new Map<string, { expiresAt: number; page: LeaderboardPage }>();
+let cachedSummary: Omit<LeaderboardSnapshot, "metrics"> | null = null;
+let cachedSummaryExpiry = 0;
 
-function toLeaderboardEntry(record: PlaytimeMetricsRow): LeaderboardEntry {
+export function clearLeaderboardSnapshotCache() {
+	cachedPages.clear();
+	cachedSummary = null;
+	cachedSummaryExpiry = 0;
+}
+
+export function toLeaderboardEntry(record: PlaytimeMetricsRow): LeaderboardEntry {
 	return {
 		steamId: record.steamId,
 		profileHref: `/${encodeURIComponent(record.steamId)}`,
 		gameCount: record.gameCount,
 		totalMinutes: record.totalMinutes,
 		averageMinutes: record.averageMinutes,
+		linuxMinutes: record.linuxMinutes,
+		gamesOver100Hours: record.gamesOver100Hours,
+		topGameShare:
+			record.topGame && record.totalMinutes > 0
+				? record.topGame.minutes / record.totalMinutes
+				: 0,
 		lastUpdated: record.fetchedAt,
 		topGame: record.topGame
 			? {
@@ -72,25 +158,123 @@ function toLeaderboardEntry(record: PlaytimeMetricsRow): LeaderboardEntry {
 	};
 }
 
-export async function getLeaderboardSnapshot(): Promise<LeaderboardSnapshot> {
-	const now = Date.now();
+export async function attachPlayerSummaries(
+	entries: (LeaderboardEntry | GameLeaderboardEntry)[],
+	apiKeyOverride?: string,
+) {
+	const summaries = await getPlayerSummaries(
+		entries.map((entry) => entry.steamId),
+		apiKeyOverride,
+	);
+	for (const entry of entries) {
+		const summary = summaries.get(entry.steamId);
+		if (summary) {
+			entry.personaName = summary.personaName;
+			entry.avatarUrl = summary.avatarUrl;
+		}
+	}
+}
 
-	if (cachedSnapshot && cachedSnapshotExpiry > now) {
-		return cachedSnapshot;
+export async function getLeaderboardPage(
+	request: LeaderboardPageRequest,
+): Promise<LeaderboardPage> {
+	const now = Date.now();
+	const cacheKey = `${request.metric}:${request.offset}:${request.limit}:${request.minGames}`;
+	const cached = cachedPages.get(cacheKey);
+	if (cached && cached.expiresAt > now) {
+		return cached.page;
 	}
 
+	const rebuildStartedAt = performance.now();
+	const { total, rows } = await listPlaytimeMetricsPage(request);
+	const entries: RankedLeaderboardEntry[] = rows.map((row, index) => ({
+		...toLeaderboardEntry(row),
+		rank: request.offset + index + 1,
+	}));
+	await attachPlayerSummaries(entries);
+
+	const page: LeaderboardPage = {
+		generatedAt: Math.floor(now / 1000),
+		metric: request.metric,
+		offset: request.offset,
+		limit: request.limit,
+		minGames: request.minGames,
+		total,
+		entries,
+	};
+
+	setBounded(
+		cachedPages,
+		cacheKey,
+		{ expiresAt: now + LEADERBOARD_CACHE_TTL_MS, page },
+		MAX_CACHED_PAGES,
+	);
+	snapshotRebuildDuration.observe(
+		{ metric: request.metric },
+		(performance.now() - rebuildStartedAt) / 1000,
+	);
+
+	return page;
+}
+
+// One page of every metric plus site-wide totals; by default the first page,
+// which is what /leaderboard renders before it starts paging.
+export async function getLeaderboardSnapshot(
+	page: Omit<LeaderboardPageRequest, "metric"> = {
+		offset: 0,
+		limit: DEFAULT_LEADERBOARD_LIMIT,
+		minGames: 0,
+	},
+): Promise<LeaderboardSnapshot> {
+	const now = Date.now();
+
+	const metricPage = (metric: LeaderboardMetric) =>
+		getLeaderboardPage({ ...page, metric }).then((result) => result.entries);
+
 	const [
-		byGameCountRows,
-		byTotalMinutesRows,
-		byAverageMinutesRows,
-		aggregates,
-		uniqueGameCount,
-		topGame,
-		playtimeCacheSize,
+		byGameCount,
+		byTotalPlaytime,
+		byAveragePlaytime,
+		byLinuxPlaytime,
+		byTopGameShare,
+		byGamesOver100Hours,
+		byRecentlyUpdated,
+		summary,
 	] = await Promise.all([
-		listPlaytimeMetricsByGameCount(MAX_ROWS),
-		listPlaytimeMetricsByTotalMinutes(MAX_ROWS),
-		listPlaytimeMetricsByAverageMinutes(MAX_ROWS),
+		metricPage("game_count"),
+		metricPage("total_playtime"),
+		metricPage("average_playtime"),
+		metricPage("linux_playtime"),
+		metricPage("top_game_share"),
+		metricPage("games_over_100h"),
+		metricPage("recently_updated"),
+		getLeaderboardSummary(now),
+	]);
+
+	return {
+		metrics: {
+			byGameCount,
+			byTotalPlaytime,
+			byAveragePlaytime,
+			byLinuxPlaytime,
+			byTopGameShare,
+			byGamesOver100Hours,
+			byRecentlyUpdated,
+		},
+		...summary,
+	};
+}
+
+async function getLeaderboardSummary(
+	now: number,
+): Promise<Omit<LeaderboardSnapshot, "metrics">> {
+	if (cachedSummary && cachedSummaryExpiry > now) {
+		return cachedSummary;
+	}
+
+	const rebuildStartedAt = performance.now();
+
+	const [aggregates, uniqueGameCount, topGame, playtimeCacheSize] = await Promise.all([
 		getLeaderboardAggregates(),
 		getUniqueTrackedGameCount(),
 		getAggregateTopGame(),
@@ -101,17 +285,8 @@ export async function getLeaderboardSnapshot(): Promise<LeaderboardSnapshot> {
 	const totalGameCount = aggregates.totalGameCount;
 	const cumulativeMinutes = aggregates.totalMinutes;
 
-	const metrics: LeaderboardMetrics = {
-		byGameCount: byGameCountRows.map(toLeaderboardEntry),
-		byTotalPlaytime: byTotalMinutesRows.map(toLeaderboardEntry),
-		byAveragePlaytime: byAverageMinutesRows.map(toLeaderboardEntry),
-	};
-
-	const generatedAt = Math.floor(now / 1000);
-
-	const snapshot: LeaderboardSnapshot = {
-		metrics,
-		generatedAt,
+	const summary = {
+		generatedAt: Math.floor(now / 1000),
 		playtimeCacheSize,
 		summary: {
 			totalMinutes: Math.round(cumulativeMinutes),
@@ -123,8 +298,43 @@ export async function getLeaderboardSnapshot(): Promise<LeaderboardSnapshot> {
 		},
 	};
 
-	cachedSnapshot = snapshot;
-	cachedSnapshotExpiry = now + LEADERBOARD_CACHE_TTL_MS;
+	cachedSummary = summary;
+	cachedSummaryExpiry = now + LEADERBOARD_CACHE_TTL_MS;
+	snapshotRebuildDuration.observe(
+		{ metric: "summary" },
+		(performance.now() - rebuildStartedAt) / 1000,
+	);
+
+	return summary;
+}
+
+export async function getGameLeaderboard(
+	appid: number,
+): Promise<GameLeaderboard | undefined> {
+	const [total, players] = await Promise.all([
+		getGamePlaytimeTotal(appid),
+		listTopPlayersForGame(appid, MAX_GAME_LEADERBOARD_ROWS),
+	]);
+
+	if (!total) {
+		return undefined;
+	}
 
-	return snapshot;
+	const entries: GameLeaderboardEntry[] = players.map((player, index) => ({
+		rank: index + 1,
+		steamId: player.steamId,
+		profileHref: `/${encodeURIComponent(player.steamId)}`,
+		minutes: player.minutes,
+		share: total.totalMinutes > 0 ? player.minutes / total.totalMinutes : 0,
+	}));
+	await attachPlayerSummaries(entries);
+
+	return {
+		generatedAt: Math.floor(Date.now() / 1000),
+		appid: total.appid,
+		name: total.name,
+		totalMinutes: total.totalMinutes,
+		playerCount: total.playerCount,
+		entries,
+	};
 }
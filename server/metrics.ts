@@ -0,0 +1,200 @@
+// A minimal Prometheus text-format registry; the app only needs counters,
+// histograms and gauges read at scrape time.
+
+type Labels = Record<string, string>;
+
+interface GaugeSample {
+	labels: Labels;
+	value: number;
+}
+
+interface Metric {
+	render(): Promise<string[]>;
+}
+
+const METRIC_PREFIX = "playtime_panorama_";
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const registry: Metric[] = [];
+
+const escapeLabelValue = (value: string) =>
+	value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels) {
+	const entries = Object.entries(labels);
+	if (!entries.length) {
+		return "";
+	}
+	return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort());
+
+const header = (name: string, help: string, type: string) => [
+	`# HELP ${name} ${help}`,
+	`# TYPE ${name} ${type}`,
+];
+
+export class Counter {
+	private readonly name: string;
+	private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+	constructor(name: string, private readonly help: string) {
+		this.name = `${METRIC_PREFIX}${name}`;
+		registry.push(this);
+	}
+
+	inc(labels: Labels = {}, amount = 1) {
+		const key = labelKey(labels);
+		const entry = this.values.get(key);
+		if (entry) {
+			entry.value += amount;
+		} else {
+			this.values.set(key, { labels, value: amount });
+		}
+	}
+
+	async render() {
+		const lines = header(this.name, this.help, "counter");
+		for (const { labels, value } of this.values.values()) {
+			lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+		}
+		return lines;
+	}
+}
+
+interface HistogramSeries {
+	labels: Labels;
+	buckets: number[];
+	sum: number;
+	count: number;
+}
+
+export class Histogram {
+	private readonly name: string;
+	private readonly series = new Map<string, HistogramSeries>();
+
+	constructor(
+		name: string,
+		private readonly help: string,
+		private readonly bounds: number[] = DEFAULT_BUCKETS,
+	) {
+		this.name = `${METRIC_PREFIX}${name}`;
+		registry.push(this);
+	}
+
+	observe(labels: Labels, value: number) {
+		const key = labelKey(labels);
+		let entry = this.series.get(key);
+		if (!entry) {
+			entry = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+			this.series.set(key, entry);
+		}
+		this.bounds.forEach((bound, index) => {
+			if (value <= bound && entry) {
+				entry.buckets[index] = (entry.buckets[index] ?? 0) + 1;
+			}
+		});
+		entry.sum += value;
+		entry.count++;
+	}
+
+	async render() {
+		const lines = header(this.name, this.help, "histogram");
+		for (const { labels, buckets, sum, count } of this.series.values()) {
+			this.bounds.forEach((bound, index) => {
+				lines.push(
+					`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index] ?? 0}`,
+				);
+			});
+			lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+			lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+			lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+		}
+		return lines;
+	}
+}
+
+// Gauges are read when Prometheus scrapes, so they never go stale.
+export function registerGauge(
+	name: string,
+	help: string,
+	collect: () => Promise<GaugeSample[]> | GaugeSample[],
+) {
+	const fullName = `${METRIC_PREFIX}${name}`;
+	registry.push({
+		async render() {
+			const lines = header(fullName, help, "gauge");
+			for (const { labels, value } of await collect()) {
+				lines.push(`${fullName}${formatLabels(labels)} ${value}`);
+			}
+			return lines;
+		},
+	});
+}
+
+export async function renderMetrics() {
+	const sections = await Promise.all(registry.map((metric) => metric.render()));
+	return `${sections.flat().join("\n")}\n`;
+}
+
+export const cacheLookups = new Counter(
+	"cache_lookups_total",
+	"Cache lookups by cache and result (hit, miss or expired).",
+);
+
+const httpRequestDuration = new Histogram(
+	"http_request_duration_seconds",
+	"HTTP request latency by route, method and status.",
+);
+
+const ROUTE_METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+
+type RouteHandler = (req: Request, ...rest: any[]) => Response | Promise<Response>;
+
+function instrumentHandler(route: string, method: string, handler: RouteHandler): RouteHandler {
+	return async (req, ...rest) => {
+		const startedAt = performance.now();
+		let status = 500;
+		try {
+			const response = await handler(req, ...rest);
+			status = response.status;
+			return response;
+		} finally {
+			httpRequestDuration.observe(
+				{ route, method, status: String(status) },
+				(performance.now() - startedAt) / 1000,
+			);
+		}
+	};
+}
+
+// Wraps every method handler in a `Bun.serve` routes table with a latency
+// histogram labelled by the route pattern; HTML bundles are left untouched.
+export function instrumentRoutes<R extends string>(
+	routes: Bun.Serve.Routes<undefined, R>,
+): Bun.Serve.Routes<undefined, R> {
+	const instrumented: Record<string, unknown> = {};
+	for (const [route, value] of Object.entries(routes)) {
+		if (typeof value === "function") {
+			instrumented[route] = instrumentHandler(route, "ANY", value as RouteHandler);
+			continue;
+		}
+
+		const methods = value && typeof value === "object" ? Object.entries(value) : [];
+		const isMethodTable =
+			methods.length > 0 &&
+			methods.every(
+				([method, handler]) => ROUTE_METHODS.includes(method) && typeof handler === "function",
+			);
+		instrumented[route] = isMethodTable
+			? Object.fromEntries(
+				methods.map(([method, handler]) => [
+					method,
+					instrumentHandler(route, method, handler as RouteHandler),
+				]),
+			)
+			: value;
+	}
+	return instrumented as Bun.Serve.Routes<undefined, R>;
+}
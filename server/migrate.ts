@@ -0,0 +1,47 @@
+import {
+	LATEST_SCHEMA_VERSION,
+	runMigrations,
+	SchemaVersionError,
+} from "~/server/migrations";
+
+const USAGE = `Usage: bun server/migrate.ts [--dry-run]
+
+Brings the cache database up to the latest schema version. The server also
+does this on startup; --dry-run only lists the migrations that would run.`;
+
+const args = process.argv.slice(2);
+
+if (args.includes("help") || args.includes("--help") || args.includes("-h")) {
+	console.log(USAGE);
+	process.exit(0);
+}
+
+const unknown = args.filter((arg) => arg !== "--dry-run");
+if (unknown.length) {
+	console.error(`Unknown argument "${unknown[0]}".\n\n${USAGE}`);
+	process.exit(2);
+}
+
+const dryRun = args.includes("--dry-run");
+
+try {
+	const plan = await runMigrations({ dryRun });
+	if (!plan.pending.length) {
+		console.log(`Schema is up to date (version ${plan.currentVersion}).`);
+	} else if (dryRun) {
+		console.log(
+			`Schema is at version ${plan.currentVersion}; these migrations would run:`,
+		);
+		for (const migration of plan.pending) {
+			console.log(`  ${migration.version}  ${migration.description}`);
+		}
+	} else {
+		console.log(
+			`Migrated schema from version ${plan.currentVersion} to ${LATEST_SCHEMA_VERSION}.`,
+		);
+	}
+	process.exit(0);
+} catch (error) {
+	console.error(error instanceof SchemaVersionError ? error.message : error);
+	process.exit(1);
+}
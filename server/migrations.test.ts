@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { SQL } from "bun";
+import { LATEST_SCHEMA_VERSION, MIGRATIONS } from "~/server/migrations";
+import { BACKENDS, runCli, type TestDatabase } from "~/server/test-databases";
+
+const PUBLIC_ID = "76561198000000001";
+const BROKEN_ID = "76561198000000003";
+
+// The schema as deployments from before versioning left it: the payload still
+// lives in playtime_cache and playtime_metrics predates linux_minutes.
+async function createUnversionedDatabase(db: SQL) {
+	const now = Math.floor(Date.now() / 1000);
+	await db`CREATE TABLE vanity_cache (vanity TEXT PRIMARY KEY, steam_id TEXT NOT NULL, create_time INTEGER NOT NULL)`;
+	await db`CREATE TABLE playtime_cache (steam_id TEXT PRIMARY KEY, payload TEXT NOT NULL, fetched_at INTEGER NOT NULL)`;
+	await db`
+		CREATE TABLE playtime_metrics (
+			steam_id TEXT PRIMARY KEY,
+			fetched_at INTEGER NOT NULL,
+			game_count INTEGER NOT NULL,
+			total_minutes INTEGER NOT NULL,
+			average_minutes REAL NOT NULL,
+			top_game_appid INTEGER,
+			top_game_name TEXT,
+			top_game_minutes INTEGER
+		)
+	`;
+	await db`CREATE TABLE game_playtime_totals (appid INTEGER PRIMARY KEY, name TEXT, total_minutes INTEGER NOT NULL)`;
+	await db`CREATE TABLE player_game_minutes (steam_id TEXT NOT NULL, appid INTEGER NOT NULL, minutes INTEGER NOT NULL, PRIMARY KEY (steam_id, appid))`;
+
+	const publicPayload = {
+		game_count: 3,
+		games: [
+			{
+				appid: 570,
+				name: "Dota 2",
+				playtime_forever: 6000,
+				playtime_2weeks: 120,
+				playtime_windows_forever: 5000,
+				playtime_linux_forever: 1000,
+				rtime_last_played: 1760000000,
+			},
+			{ appid: 730, name: " Counter-Strike 2 ", playtime_forever: 300 },
+			{ appid: 0, name: "Broken entry", playtime_forever: 900 },
+		],
+	};
+
+	await db`INSERT INTO vanity_cache VALUES ('gaben', '76561197960287930', ${now})`;
+	await db`
+		INSERT INTO playtime_cache VALUES
+			(${PUBLIC_ID}, ${JSON.stringify(publicPayload)}, ${now}),
+			(${BROKEN_ID}, 'not json', ${now})
+	`;
+	await db`INSERT INTO playtime_metrics VALUES (${PUBLIC_ID}, ${now}, 3, 7200, 2400, 570, 'Dota 2', 6000)`;
+	await db`INSERT INTO game_playtime_totals VALUES (570, 'Dota 2', 6000)`;
+	await db`INSERT INTO player_game_minutes VALUES (${PUBLIC_ID}, 570, 6000)`;
+}
+
+const migrate = (cacheUrl: string, ...args: string[]) =>
+	runCli(cacheUrl, "server/migrate.ts", ...args);
+
+describe.each(BACKENDS)("migrations on an unversioned %s database", (_, openDatabase) => {
+	let database: TestDatabase;
+	let db: SQL;
+	let listColumns: TestDatabase["listColumns"];
+
+	beforeEach(async () => {
+		database = await openDatabase();
+		({ db, listColumns } = database);
+		await createUnversionedDatabase(db);
+	});
+
+	afterEach(async () => {
+		await database.dispose();
+	});
+
+	test("brings the schema up to date and keeps the cached data", async () => {
+		const result = await migrate(database.cacheUrl);
+		expect(result.stderr).toBe("");
+		expect(result.exitCode).toBe(0);
+		expect(result.stdout).toContain(
+			`Migrated schema from version 0 to ${LATEST_SCHEMA_VERSION}.`,
+		);
+
+		const versions = await db`SELECT version FROM schema_version ORDER BY version`;
+		expect(versions.map((row: { version: number }) => row.version)).toEqual(
+			MIGRATIONS.map((migration) => migration.version),
+		);
+
+		// Version 2 and 4 add columns and empty the metrics so they get rebuilt.
+		expect(await listColumns("playtime_metrics")).toContain("linux_minutes");
+		expect(await listColumns("playtime_metrics")).toContain("games_over_100h");
+		expect(await db`SELECT * FROM playtime_metrics`).toHaveLength(0);
+
+		// Version 3 moves the games out of the payload into owned_games and skips
+		// entries it cannot read.
+		expect(await listColumns("playtime_cache")).not.toContain("payload");
+		expect(await listColumns("player_game_minutes")).toEqual([]);
+		const cached = await db`SELECT steam_id FROM playtime_cache ORDER BY steam_id`;
+		expect(cached.map((row: { steam_id: string }) => row.steam_id)).toEqual([
+			PUBLIC_ID,
+			BROKEN_ID,
+		]);
+		const games = await db`
+			SELECT steam_id, appid, name, minutes, recent_minutes, windows_minutes, linux_minutes, last_played
+			FROM owned_games
+			ORDER BY steam_id, appid
+		`;
+		expect([...games]).toEqual([
+			{
+				steam_id: PUBLIC_ID,
+				appid: 570,
+				name: "Dota 2",
+				minutes: 6000,
+				recent_minutes: 120,
+				windows_minutes: 5000,
+				linux_minutes: 1000,
+				last_played: 1760000000,
+			},
+			{
+				steam_id: PUBLIC_ID,
+				appid: 730,
+				name: "Counter-Strike 2",
+				minutes: 300,
+				recent_minutes: 0,
+				windows_minutes: 0,
+				linux_minutes: 0,
+				last_played: null,
+			},
+		]);
+
+		const vanity = await db`SELECT steam_id FROM vanity_cache WHERE vanity = 'gaben'`;
+		expect(vanity[0]?.steam_id).toBe("76561197960287930");
+
+		const rerun = await migrate(database.cacheUrl);
+		expect(rerun.exitCode).toBe(0);
+		expect(rerun.stdout).toContain(
+			`Schema is up to date (version ${LATEST_SCHEMA_VERSION}).`,
+		);
+	});
+
+	test("--dry-run lists the pending migrations without applying them", async () => {
+		const result = await migrate(database.cacheUrl, "--dry-run");
+		expect(result.exitCode).toBe(0);
+		expect(result.stdout).toContain("Schema is at version 0; these migrations would run:");
+		for (const migration of MIGRATIONS) {
+			expect(result.stdout).toContain(`${migration.version}  ${migration.description}`);
+		}
+
+		expect(await listColumns("schema_version")).toEqual([]);
+		expect(await listColumns("playtime_metrics")).not.toContain("linux_minutes");
+		expect(await listColumns("playtime_cache")).toContain("payload");
+		expect(await db`SELECT * FROM playtime_metrics`).toHaveLength(1);
+	});
+
+	test("the migrated database works with the cache helpers", async () => {
+		expect((await migrate(database.cacheUrl)).exitCode).toBe(0);
+
+		const stats = await runCli(database.cacheUrl, "server/admin.ts", "stats");
+		expect(stats.stderr).toBe("");
+		expect(stats.exitCode).toBe(0);
+		expect(stats.stdout).toMatch(/Database size: \d+\.\d (KB|MB)\n/);
+
+		const inspect = await runCli(database.cacheUrl, "server/admin.ts", "inspect", PUBLIC_ID);
+		expect(inspect.exitCode).toBe(0);
+		expect(JSON.parse(inspect.stdout).payload).toEqual({ game_count: 2 });
+	});
+});
@@ -0,0 +1,356 @@
+import type { SQL, TransactionSQL } from "bun";
+import { isPostgres, sql, transaction } from "~/server/connection";
+
+// Each step runs in its own transaction together with its `schema_version`
+// row, and must be safe to re-run against a database that already has it:
+// deployments from before versioning already have the baseline tables.
+export interface Migration {
+	version: number;
+	description: string;
+	up: (tx: TransactionSQL) => Promise<void>;
+}
+
+async function listTableColumns(db: SQL, table: string): Promise<string[]> {
+	const rows = isPostgres
+		? await db`
+			SELECT column_name AS name
+			FROM information_schema.columns
+			WHERE table_schema = current_schema() AND table_name = ${table}
+		`
+		: await db`SELECT name FROM pragma_table_info(${table})`;
+	return (rows as Array<{ name: string }>).map((row) => String(row.name));
+}
+
+export const MIGRATIONS: readonly Migration[] = [
+	{
+		version: 1,
+		description: "Create the cache tables",
+		up: async (tx) => {
+			await tx`
+				CREATE TABLE IF NOT EXISTS vanity_cache (
+					vanity TEXT PRIMARY KEY,
+					steam_id TEXT NOT NULL,
+					create_time INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS vanity_miss_cache (
+					vanity TEXT PRIMARY KEY,
+					message TEXT NOT NULL,
+					checked_at INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS playtime_cache (
+					steam_id TEXT PRIMARY KEY,
+					payload TEXT NOT NULL,
+					fetched_at INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS playtime_metrics (
+					steam_id TEXT PRIMARY KEY,
+					fetched_at INTEGER NOT NULL,
+					game_count INTEGER NOT NULL,
+					total_minutes INTEGER NOT NULL,
+					average_minutes DOUBLE PRECISION NOT NULL,
+					top_game_appid INTEGER,
+					top_game_name TEXT,
+					top_game_minutes INTEGER,
+					linux_minutes INTEGER NOT NULL DEFAULT 0
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS game_playtime_totals (
+					appid INTEGER PRIMARY KEY,
+					name TEXT,
+					total_minutes BIGINT NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS player_game_minutes (
+					steam_id TEXT NOT NULL,
+					appid INTEGER NOT NULL,
+					minutes INTEGER NOT NULL,
+					PRIMARY KEY (steam_id, appid)
+				)
+			`;
+
+			await tx`
+				CREATE INDEX IF NOT EXISTS player_game_minutes_by_appid
+				ON player_game_minutes (appid, minutes DESC)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS playtime_refresh_locks (
+					steam_id TEXT PRIMARY KEY,
+					requested_at INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS playtime_history (
+					steam_id TEXT NOT NULL,
+					fetched_at INTEGER NOT NULL,
+					game_count INTEGER NOT NULL,
+					total_minutes INTEGER NOT NULL,
+					games TEXT NOT NULL,
+					PRIMARY KEY (steam_id, fetched_at)
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS header_art_cache (
+					appid INTEGER PRIMARY KEY,
+					image ${isPostgres ? tx`BYTEA` : tx`BLOB`} NOT NULL,
+					fetched_at INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS friend_list_cache (
+					steam_id TEXT PRIMARY KEY,
+					friends TEXT NOT NULL,
+					fetched_at INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS player_summary_cache (
+					steam_id TEXT PRIMARY KEY,
+					persona_name TEXT NOT NULL,
+					avatar_url TEXT,
+					visibility INTEGER NOT NULL,
+					fetched_at INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS private_profile_cache (
+					steam_id TEXT PRIMARY KEY,
+					reason TEXT NOT NULL,
+					checked_at INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS hidden_profiles (
+					steam_id TEXT PRIMARY KEY,
+					hidden_at INTEGER NOT NULL
+				)
+			`;
+
+			await tx`
+				CREATE TABLE IF NOT EXISTS admin_audit_log (
+					id ${isPostgres ? tx`SERIAL PRIMARY KEY` : tx`INTEGER PRIMARY KEY AUTOINCREMENT`},
+					created_at INTEGER NOT NULL,
+					actor TEXT NOT NULL,
+					action TEXT NOT NULL,
+					target TEXT,
+					status INTEGER
+				)
+			`;
+		},
+	},
+	{
+		version: 2,
+		description: "Add linux_minutes to playtime_metrics",
+		up: async (tx) => {
+			if ((await listTableColumns(tx, "playtime_metrics")).includes("linux_minutes")) {
+				return;
+			}
+			await tx`ALTER TABLE playtime_metrics ADD COLUMN linux_minutes INTEGER NOT NULL DEFAULT 0`;
+			// Emptying the metrics makes the server rebuild them, Linux hours included.
+			await tx`DELETE FROM playtime_metrics`;
+		},
+	},
+	{
+		version: 3,
+		description: "Move per-game playtime into owned_games",
+		up: async (tx) => {
+			await tx`
+				CREATE TABLE IF NOT EXISTS owned_games (
+					steam_id TEXT NOT NULL,
+					appid INTEGER NOT NULL,
+					name TEXT NOT NULL DEFAULT '',
+					minutes INTEGER NOT NULL,
+					recent_minutes INTEGER NOT NULL DEFAULT 0,
+					windows_minutes INTEGER NOT NULL DEFAULT 0,
+					mac_minutes INTEGER NOT NULL DEFAULT 0,
+					linux_minutes INTEGER NOT NULL DEFAULT 0,
+					deck_minutes INTEGER NOT NULL DEFAULT 0,
+					last_played INTEGER,
+					PRIMARY KEY (steam_id, appid)
+				)
+			`;
+			await tx`
+				CREATE INDEX IF NOT EXISTS owned_games_by_appid
+				ON owned_games (appid, minutes DESC)
+			`;
+
+			if ((await listTableColumns(tx, "playtime_cache")).includes("payload")) {
+				// Postgres before 16 has no json_valid or IS JSON; this lets unreadable
+				// payloads be skipped as on SQLite instead of failing the migration.
+				if (isPostgres) {
+					await tx`
+						CREATE OR REPLACE FUNCTION pg_temp.try_parse_jsonb(value TEXT) RETURNS jsonb AS $$
+						BEGIN
+							RETURN CAST(value AS jsonb);
+						EXCEPTION WHEN OTHERS THEN
+							RETURN NULL;
+						END;
+						$$ LANGUAGE plpgsql
+					`;
+				}
+				await tx`
+					INSERT INTO owned_games (
+						steam_id,
+						appid,
+						name,
+						minutes,
+						recent_minutes,
+						windows_minutes,
+						mac_minutes,
+						linux_minutes,
+						deck_minutes,
+						last_played
+					)
+					${isPostgres ? tx`
+						SELECT
+							pc.steam_id,
+							CAST(g.value ->> 'appid' AS INTEGER),
+							COALESCE(TRIM(g.value ->> 'name'), ''),
+							COALESCE(CAST(g.value ->> 'playtime_forever' AS INTEGER), 0),
+							COALESCE(CAST(g.value ->> 'playtime_2weeks' AS INTEGER), 0),
+							COALESCE(CAST(g.value ->> 'playtime_windows_forever' AS INTEGER), 0),
+							COALESCE(CAST(g.value ->> 'playtime_mac_forever' AS INTEGER), 0),
+							COALESCE(CAST(g.value ->> 'playtime_linux_forever' AS INTEGER), 0),
+							COALESCE(CAST(g.value ->> 'playtime_deck_forever' AS INTEGER), 0),
+							CAST(g.value ->> 'rtime_last_played' AS INTEGER)
+						FROM playtime_cache pc
+						CROSS JOIN LATERAL (SELECT pg_temp.try_parse_jsonb(pc.payload) -> 'games' AS games) AS parsed
+						CROSS JOIN LATERAL jsonb_array_elements(
+							CASE WHEN jsonb_typeof(parsed.games) = 'array' THEN parsed.games ELSE '[]' END
+						) AS g(value)
+						WHERE CAST(g.value ->> 'appid' AS INTEGER) > 0
+					` : tx`
+						SELECT
+							pc.steam_id,
+							CAST(json_extract(g.value, '$.appid') AS INTEGER),
+							COALESCE(TRIM(json_extract(g.value, '$.name')), ''),
+							COALESCE(CAST(json_extract(g.value, '$.playtime_forever') AS INTEGER), 0),
+							COALESCE(CAST(json_extract(g.value, '$.playtime_2weeks') AS INTEGER), 0),
+							COALESCE(CAST(json_extract(g.value, '$.playtime_windows_forever') AS INTEGER), 0),
+							COALESCE(CAST(json_extract(g.value, '$.playtime_mac_forever') AS INTEGER), 0),
+							COALESCE(CAST(json_extract(g.value, '$.playtime_linux_forever') AS INTEGER), 0),
+							COALESCE(CAST(json_extract(g.value, '$.playtime_deck_forever') AS INTEGER), 0),
+							CAST(json_extract(g.value, '$.rtime_last_played') AS INTEGER)
+						FROM playtime_cache pc
+						JOIN json_each(
+							CASE WHEN json_valid(pc.payload) THEN pc.payload ELSE '{}' END,
+							'$.games'
+						) AS g
+						WHERE CAST(json_extract(g.value, '$.appid') AS INTEGER) > 0
+					`}
+					ON CONFLICT (steam_id, appid) DO NOTHING
+				`;
+				await tx`ALTER TABLE playtime_cache DROP COLUMN payload`;
+			}
+
+			// owned_games covers everything player_game_minutes held.
+			await tx`DROP TABLE IF EXISTS player_game_minutes`;
+		},
+	},
+	{
+		version: 4,
+		description: "Add games_over_100h to playtime_metrics",
+		up: async (tx) => {
+			if ((await listTableColumns(tx, "playtime_metrics")).includes("games_over_100h")) {
+				return;
+			}
+			await tx`ALTER TABLE playtime_metrics ADD COLUMN games_over_100h INTEGER NOT NULL DEFAULT 0`;
+			await tx`DELETE FROM playtime_metrics`;
+		},
+	},
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.at(-1)?.version ?? 0;
+
+export class SchemaVersionError extends Error {
+	constructor(readonly databaseVersion: number) {
+		super(
+			`The cache database is at schema version ${databaseVersion}, but this build only knows up to version ${LATEST_SCHEMA_VERSION}. Upgrade playtime-panorama or point STEAM_CACHE_URL at another database.`,
+		);
+		this.name = "SchemaVersionError";
+	}
+}
+
+export interface MigrationPlan {
+	currentVersion: number;
+	pending: Migration[];
+}
+
+async function readSchemaVersion(db: SQL): Promise<number> {
+	if (!(await listTableColumns(db, "schema_version")).length) {
+		return 0;
+	}
+	const [row] = await db`SELECT MAX(version) AS version FROM schema_version`;
+	return Number(row?.version ?? 0);
+}
+
+// Reads the schema version without changing anything.
+export async function planMigrations(): Promise<MigrationPlan> {
+	const currentVersion = await readSchemaVersion(sql);
+	if (currentVersion > LATEST_SCHEMA_VERSION) {
+		throw new SchemaVersionError(currentVersion);
+	}
+	return {
+		currentVersion,
+		pending: MIGRATIONS.filter((migration) => migration.version > currentVersion),
+	};
+}
+
+export async function runMigrations(options?: { dryRun?: boolean }): Promise<MigrationPlan> {
+	const plan = await planMigrations();
+	if (options?.dryRun || !plan.pending.length) {
+		return plan;
+	}
+
+	await sql`
+		CREATE TABLE IF NOT EXISTS schema_version (
+			version INTEGER PRIMARY KEY,
+			description TEXT NOT NULL,
+			applied_at INTEGER NOT NULL
+		)
+	`;
+
+	for (const migration of plan.pending) {
+		const applied = await transaction(async (tx) => {
+			// Stops two instances starting at once from migrating a shared Postgres
+			// database concurrently; the key is arbitrary.
+			if (isPostgres) {
+				await tx`SELECT pg_advisory_xact_lock(7465611900)`;
+			}
+			// Another instance may have applied it while this one waited.
+			if ((await readSchemaVersion(tx)) >= migration.version) {
+				return false;
+			}
+			await migration.up(tx);
+			await tx`
+				INSERT INTO schema_version (version, description, applied_at)
+				VALUES (${migration.version}, ${migration.description}, ${Math.floor(Date.now() / 1000)})
+			`;
+			return true;
+		});
+		if (applied) {
+			console.log(`Applied schema migration ${migration.version}: ${migration.description}`);
+		}
+	}
+
+	return plan;
+}
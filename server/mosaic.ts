@@ -0,0 +1,403 @@
+import Bottleneck from "bottleneck";
+import { decode as decodeJpeg } from "jpeg-js";
+import { promisify } from "node:util";
+import { deflate } from "node:zlib";
+import { setBounded } from "~/server/bounded-cache";
+import type { CachedPlaytimePayload } from "~/server/database";
+import { cacheHeaderArt, getCachedHeaderArt } from "~/server/database";
+import {
+	computeGridLayout,
+	countGridRows,
+	placeGridCells,
+	type GridPlacement,
+} from "~/server/layout";
+import { getGameMinutes, type PlaytimeMode } from "~/server/steam";
+import { headerArtUrl } from "~/server/steam-urls";
+
+const BACKGROUND_RGB = [0x05, 0x06, 0x0f] as const;
+
+export const DEFAULT_MOSAIC_WIDTH = 1920;
+export const DEFAULT_MOSAIC_HEIGHT = 1080;
+export const MIN_MOSAIC_DIMENSION = 320;
+export const MAX_MOSAIC_DIMENSION = 4096;
+const MAX_MOSAIC_OUTPUT_HEIGHT = 8192;
+// PNG renders snap to the nearest preset, so arbitrary dimensions cannot force
+// a fresh full-size render for every request. SVGs are cheap and keep the
+// exact size.
+const PNG_WIDTH_PRESETS = [640, 960, 1280, 1600, 1920, 2560];
+const PNG_HEIGHT_PRESETS = [360, 540, 720, 900, 1080, 1440];
+const MAX_PNG_OUTPUT_HEIGHT = 4096;
+
+const MOSAIC_CACHE_TTL_MS = 10 * 60 * 1000;
+const MOSAIC_CACHE_MAX_ENTRIES = 64;
+// Renders beyond this many waiting are turned away rather than queued.
+const MAX_QUEUED_MOSAIC_RENDERS = 4;
+
+const headerArtLimiter = new Bottleneck({ maxConcurrent: 8 });
+// Drawing and encoding are CPU-bound, so only one render runs at a time.
+const renderLimiter = new Bottleneck({
+	maxConcurrent: 1,
+	highWater: MAX_QUEUED_MOSAIC_RENDERS,
+	strategy: Bottleneck.strategy.OVERFLOW,
+});
+const deflateAsync = promisify(deflate);
+
+export class MosaicRenderBusyError extends Error {
+	retryAfterSeconds = 5;
+
+	constructor() {
+		super("Too many mosaics are being rendered right now. Try again shortly.");
+		this.name = "MosaicRenderBusyError";
+	}
+}
+
+interface MosaicCacheEntry {
+	expiresAt: number;
+	image: Uint8Array;
+}
+
+const renderedMosaics = new Map<string, MosaicCacheEntry>();
+const pendingMosaics = new Map<string, Promise<Uint8Array>>();
+
+export interface MosaicDimensions {
+	width: number;
+	height: number;
+}
+
+export interface MosaicTile extends GridPlacement {
+	name: string;
+	minutes: number;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface MosaicPlan {
+	width: number;
+	height: number;
+	tiles: MosaicTile[];
+}
+
+function snapToPreset(value: number, presets: number[]): number {
+	return presets.reduce((nearest, preset) =>
+		Math.abs(preset - value) < Math.abs(nearest - value) ? preset : nearest,
+	);
+}
+
+export function planMosaic(
+	payload: CachedPlaytimePayload,
+	dimensions: MosaicDimensions,
+	mode: PlaytimeMode = "all",
+): MosaicPlan {
+	const playable = payload.games
+		.filter(
+			(game) =>
+				typeof game.appid === "number" && getGameMinutes(game, mode) > 0,
+		)
+		.sort((a, b) => getGameMinutes(b, mode) - getGameMinutes(a, mode));
+
+	const layout = computeGridLayout(
+		playable.map((game) => ({
+			id: game.appid,
+			hours: getGameMinutes(game, mode) / 60,
+		})),
+		dimensions.width,
+		dimensions.height,
+	);
+
+	if (!layout.cells.length || layout.rowHeight <= 0) {
+		return { width: dimensions.width, height: 0, tiles: [] };
+	}
+
+	const placements = placeGridCells(layout);
+	const columnWidth = dimensions.width / layout.columns;
+	const gameById = new Map(playable.map((game) => [game.appid, game]));
+	const tiles: MosaicTile[] = [];
+
+	for (const placement of placements) {
+		const game = gameById.get(placement.id);
+		if (!game) {
+			continue;
+		}
+		tiles.push({
+			...placement,
+			name: (game.name ?? "").trim() || `App ${game.appid}`,
+			minutes: getGameMinutes(game, mode),
+			x: placement.column * columnWidth,
+			y: placement.row * layout.rowHeight,
+			width: placement.span * columnWidth,
+			height: placement.span * layout.rowHeight,
+		});
+	}
+
+	return {
+		width: dimensions.width,
+		height: Math.min(
+			Math.round(countGridRows(placements) * layout.rowHeight),
+			MAX_MOSAIC_OUTPUT_HEIGHT,
+		),
+		tiles,
+	};
+}
+
+// An empty cached image marks art Steam does not have, so it is not refetched
+// until the cache entry expires.
+async function loadHeaderArt(appid: number): Promise<Uint8Array | null> {
+	const cached = await getCachedHeaderArt(appid);
+	if (cached) {
+		return cached.length ? cached : null;
+	}
+
+	const response = await headerArtLimiter.schedule(() =>
+		fetch(headerArtUrl(appid)),
+	);
+
+	if (response.status === 404) {
+		await cacheHeaderArt(appid, new Uint8Array());
+		return null;
+	}
+
+	if (!response.ok) {
+		console.warn(`Header art fetch failed for app ${appid} (${response.status})`);
+		return null;
+	}
+
+	const image = new Uint8Array(await response.arrayBuffer());
+	await cacheHeaderArt(appid, image);
+	return image;
+}
+
+function drawTile(
+	canvas: Uint8Array,
+	canvasWidth: number,
+	canvasHeight: number,
+	tile: MosaicTile,
+	jpeg: Uint8Array,
+) {
+	const source = decodeJpeg(jpeg, {
+		useTArray: true,
+		formatAsRGBA: false,
+		tolerantDecoding: true,
+	});
+	const x0 = Math.round(tile.x);
+	const y0 = Math.round(tile.y);
+	const x1 = Math.min(Math.round(tile.x + tile.width), canvasWidth);
+	const y1 = Math.min(Math.round(tile.y + tile.height), canvasHeight);
+	const targetWidth = x1 - x0;
+	const targetHeight = y1 - y0;
+	const sourceWidth = source.width;
+	const sourceHeight = source.height;
+
+	if (targetWidth <= 0 || targetHeight <= 0 || !sourceWidth || !sourceHeight) {
+		return;
+	}
+
+	// Box filter: average every source pixel that falls inside the target pixel.
+	const tileWidth = Math.round(tile.width);
+	const tileHeight = Math.round(tile.height);
+	for (let dy = 0; dy < targetHeight; dy++) {
+		const sy0 = Math.floor((dy * sourceHeight) / tileHeight);
+		const sy1 = Math.max(sy0 + 1, Math.floor(((dy + 1) * sourceHeight) / tileHeight));
+		for (let dx = 0; dx < targetWidth; dx++) {
+			const sx0 = Math.floor((dx * sourceWidth) / tileWidth);
+			const sx1 = Math.max(sx0 + 1, Math.floor(((dx + 1) * sourceWidth) / tileWidth));
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let count = 0;
+			for (let sy = sy0; sy < Math.min(sy1, sourceHeight); sy++) {
+				for (let sx = sx0; sx < Math.min(sx1, sourceWidth); sx++) {
+					const offset = (sy * sourceWidth + sx) * 3;
+					r += source.data[offset] ?? 0;
+					g += source.data[offset + 1] ?? 0;
+					b += source.data[offset + 2] ?? 0;
+					count++;
+				}
+			}
+			if (!count) {
+				continue;
+			}
+			const target = ((y0 + dy) * canvasWidth + x0 + dx) * 3;
+			canvas[target] = Math.round(r / count);
+			canvas[target + 1] = Math.round(g / count);
+			canvas[target + 2] = Math.round(b / count);
+		}
+	}
+}
+
+async function encodePng(width: number, height: number, rgb: Uint8Array): Promise<Uint8Array> {
+	const stride = width * 3;
+	const scanlines = new Uint8Array((stride + 1) * height);
+	for (let y = 0; y < height; y++) {
+		scanlines.set(
+			rgb.subarray(y * stride, (y + 1) * stride),
+			y * (stride + 1) + 1,
+		);
+	}
+
+	const header = new Uint8Array(13);
+	const headerView = new DataView(header.buffer);
+	headerView.setUint32(0, width);
+	headerView.setUint32(4, height);
+	header[8] = 8; // bit depth
+	header[9] = 2; // colour type: truecolour RGB
+
+	const chunks = [
+		createPngChunk("IHDR", header),
+		// Compressed on the libuv thread pool rather than the request thread.
+		createPngChunk("IDAT", new Uint8Array(await deflateAsync(scanlines))),
+		createPngChunk("IEND", new Uint8Array()),
+	];
+	const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+	const output = new Uint8Array(
+		signature.length + chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+	);
+	output.set(signature, 0);
+	let offset = signature.length;
+	for (const chunk of chunks) {
+		output.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return output;
+}
+
+function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+	const chunk = new Uint8Array(data.length + 12);
+	const view = new DataView(chunk.buffer);
+	view.setUint32(0, data.length);
+	chunk.set(new TextEncoder().encode(type), 4);
+	chunk.set(data, 8);
+	view.setUint32(data.length + 8, Bun.hash.crc32(chunk.subarray(4, data.length + 8)));
+	return chunk;
+}
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+async function drawMosaicPng(
+	plan: MosaicPlan,
+	tiles: MosaicTile[],
+	artwork: (Uint8Array | null)[],
+): Promise<Uint8Array> {
+	const width = plan.width;
+	const height = Math.max(1, plan.height);
+	const canvas = new Uint8Array(width * height * 3);
+	for (let offset = 0; offset < canvas.length; offset += 3) {
+		canvas[offset] = BACKGROUND_RGB[0];
+		canvas[offset + 1] = BACKGROUND_RGB[1];
+		canvas[offset + 2] = BACKGROUND_RGB[2];
+	}
+
+	for (const [index, tile] of tiles.entries()) {
+		const jpeg = artwork[index];
+		if (!jpeg) {
+			continue;
+		}
+		try {
+			drawTile(canvas, width, height, tile, jpeg);
+		} catch (error) {
+			console.warn(`Skipping mosaic tile for app ${tile.id}:`, error);
+		}
+		// One tile at a time, so other requests are served between tiles.
+		await yieldToEventLoop();
+	}
+
+	return encodePng(width, height, canvas);
+}
+
+async function renderMosaicPng(plan: MosaicPlan): Promise<Uint8Array> {
+	const visibleTiles = plan.tiles.filter((tile) => tile.y < Math.max(1, plan.height));
+	const artwork = await Promise.all(
+		visibleTiles.map((tile) =>
+			loadHeaderArt(tile.id).catch((error) => {
+				console.warn(`Skipping mosaic tile for app ${tile.id}:`, error);
+				return null;
+			}),
+		),
+	);
+
+	try {
+		return await renderLimiter.schedule(() => drawMosaicPng(plan, visibleTiles, artwork));
+	} catch (error) {
+		if (error instanceof Bottleneck.BottleneckError) {
+			throw new MosaicRenderBusyError();
+		}
+		throw error;
+	}
+}
+
+const escapeXml = (value: string) =>
+	value.replace(/[<>&"']/g, (character) => `&#${character.charCodeAt(0)};`);
+
+function formatTileHours(minutes: number) {
+	const hours = Math.max(minutes, 0) / 60;
+	return `${hours.toLocaleString("en-US", {
+		maximumFractionDigits: hours < 10 ? 1 : 0,
+	})} hrs`;
+}
+
+const svgNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+export function renderMosaicSvg(plan: MosaicPlan): string {
+	const background = `#${BACKGROUND_RGB.map((channel) =>
+		channel.toString(16).padStart(2, "0"),
+	).join("")}`;
+	const lines = [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${plan.width}" height="${plan.height}" viewBox="0 0 ${plan.width} ${plan.height}">`,
+		`<rect width="100%" height="100%" fill="${background}"/>`,
+	];
+
+	for (const tile of plan.tiles) {
+		const title = `${tile.name} — ${formatTileHours(tile.minutes)}`;
+		lines.push(
+			`<g><title>${escapeXml(title)}</title><image href="${escapeXml(headerArtUrl(tile.id))}" x="${svgNumber(tile.x)}" y="${svgNumber(tile.y)}" width="${svgNumber(tile.width)}" height="${svgNumber(tile.height)}" preserveAspectRatio="xMidYMid meet"/></g>`,
+		);
+	}
+
+	lines.push("</svg>");
+	return lines.join("\n");
+}
+
+export async function getMosaicPng(
+	steamID: string,
+	payload: CachedPlaytimePayload,
+	requested: MosaicDimensions,
+	mode: PlaytimeMode = "all",
+): Promise<Uint8Array | null> {
+	const dimensions = {
+		width: snapToPreset(requested.width, PNG_WIDTH_PRESETS),
+		height: snapToPreset(requested.height, PNG_HEIGHT_PRESETS),
+	};
+	const cacheKey = `${steamID}:${mode}:${dimensions.width}x${dimensions.height}`;
+	const now = Date.now();
+	const cached = renderedMosaics.get(cacheKey);
+	if (cached && cached.expiresAt > now) {
+		return cached.image;
+	}
+
+	const plan = planMosaic(payload, dimensions, mode);
+	if (!plan.tiles.length) {
+		return null;
+	}
+	plan.height = Math.min(plan.height, MAX_PNG_OUTPUT_HEIGHT);
+
+	let pending = pendingMosaics.get(cacheKey);
+	if (!pending) {
+		pending = renderMosaicPng(plan)
+			.then((image) => {
+				setBounded(
+					renderedMosaics,
+					cacheKey,
+					{ image, expiresAt: Date.now() + MOSAIC_CACHE_TTL_MS },
+					MOSAIC_CACHE_MAX_ENTRIES,
+				);
+				return image;
+			})
+			.finally(() => {
+				pendingMosaics.delete(cacheKey);
+			});
+		pendingMosaics.set(cacheKey, pending);
+	}
+
+	return pending;
+}
@@ -0,0 +1,161 @@
+import {
+	countExpiredPlaytimeEntries,
+	listExpiredPlaytimeSteamIds,
+} from "~/server/database";
+import {
+	refreshExpiredPlaytimePayload,
+	SteamProfilePrivateError,
+} from "~/server/steam";
+import { hasBackgroundSteamBudget } from "~/server/steam-key-pool";
+
+const DEFAULT_RESERVOIR_SHARE = 0.2;
+const DEFAULT_INTERVAL_SECONDS = 60;
+const DEFAULT_BATCH_SIZE = 20;
+// Profiles that fail, come back empty or have gone private are skipped for a while
+// so they do not stay at the front of the oldest-first queue.
+const FAILED_REFRESH_RETRY_MS = 6 * 60 * 60 * 1000;
+
+export interface BackgroundRefreshOptions {
+	reservoirShare: number;
+	intervalSeconds: number;
+	batchSize: number;
+}
+
+export interface BackgroundRefreshScheduler {
+	stop(): Promise<void>;
+}
+
+function readNumberEnv(name: string, fallback: number, min: number, max: number) {
+	const raw = Bun.env[name]?.trim();
+	if (!raw) {
+		return fallback;
+	}
+	const parsed = Number(raw);
+	if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+		console.warn(`Ignoring invalid ${name}="${raw}", using ${fallback}`);
+		return fallback;
+	}
+	return parsed;
+}
+
+export function readBackgroundRefreshOptions(): BackgroundRefreshOptions {
+	return {
+		reservoirShare: readNumberEnv(
+			"BACKGROUND_REFRESH_SHARE",
+			DEFAULT_RESERVOIR_SHARE,
+			0,
+			1,
+		),
+		intervalSeconds: readNumberEnv(
+			"BACKGROUND_REFRESH_INTERVAL_SECONDS",
+			DEFAULT_INTERVAL_SECONDS,
+			1,
+			24 * 60 * 60,
+		),
+		batchSize: Math.trunc(
+			readNumberEnv("BACKGROUND_REFRESH_BATCH_SIZE", DEFAULT_BATCH_SIZE, 1, 1000),
+		),
+	};
+}
+
+export function startBackgroundRefreshScheduler(
+	options: BackgroundRefreshOptions = readBackgroundRefreshOptions(),
+): BackgroundRefreshScheduler {
+	if (options.reservoirShare <= 0) {
+		console.log("Background refresh disabled (BACKGROUND_REFRESH_SHARE=0)");
+		return { stop: async () => {} };
+	}
+
+	const retryAfter = new Map<string, number>();
+	let stopping = false;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let currentRun: Promise<void> | null = null;
+
+	const runOnce = async () => {
+		const now = Date.now();
+		for (const [steamID, retryAt] of retryAfter) {
+			if (retryAt <= now) {
+				retryAfter.delete(steamID);
+			}
+		}
+
+		const candidates = await listExpiredPlaytimeSteamIds(
+			options.batchSize + retryAfter.size,
+		);
+		const batch = candidates
+			.filter((steamID) => !retryAfter.has(steamID))
+			.slice(0, options.batchSize);
+		if (!batch.length) {
+			return;
+		}
+
+		let refreshed = 0;
+		let failed = 0;
+		let budgetExhausted = false;
+
+		for (const steamID of batch) {
+			if (stopping) {
+				break;
+			}
+			if (!(await hasBackgroundSteamBudget(options.reservoirShare))) {
+				budgetExhausted = true;
+				break;
+			}
+
+			try {
+				const payload = await refreshExpiredPlaytimePayload(steamID);
+				if (payload.game_count > 0) {
+					refreshed++;
+				} else {
+					failed++;
+					retryAfter.set(steamID, Date.now() + FAILED_REFRESH_RETRY_MS);
+				}
+			} catch (error) {
+				failed++;
+				retryAfter.set(steamID, Date.now() + FAILED_REFRESH_RETRY_MS);
+				if (!(error instanceof SteamProfilePrivateError)) {
+					console.warn(`Background refresh failed for SteamID ${steamID}:`, error);
+				}
+			}
+		}
+
+		const remaining = await countExpiredPlaytimeEntries();
+		console.log(
+			`Background refresh: ${refreshed} refreshed, ${failed} failed, ${remaining} expired profiles remaining` +
+				(budgetExhausted ? " (paused until the Steam rate limit window resets)" : ""),
+		);
+	};
+
+	const scheduleNext = () => {
+		if (stopping) {
+			return;
+		}
+		timer = setTimeout(() => {
+			timer = null;
+			currentRun = runOnce()
+				.catch((error) => {
+					console.error("Background refresh run failed", error);
+				})
+				.finally(() => {
+					currentRun = null;
+					scheduleNext();
+				});
+		}, options.intervalSeconds * 1000);
+	};
+
+	console.log(
+		`Background refresh every ${options.intervalSeconds}s, up to ${options.batchSize} profiles, using at most ${Math.round(options.reservoirShare * 100)}% of the Steam rate limit`,
+	);
+	scheduleNext();
+
+	return {
+		async stop() {
+			stopping = true;
+			if (timer) {
+				clearTimeout(timer);
+				timer = null;
+			}
+			await currentRun;
+		},
+	};
+}
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, mock, setSystemTime, spyOn, test } from "bun:test";
+import {
+	fetchWithSteamKey,
+	getSteamKeyPoolStatus,
+	SteamKeyPoolError,
+} from "~/server/steam-key-pool";
+
+// test-setup.ts configures three server keys.
+const POOL_SIZE = 3;
+
+const buildUrl = (key: string) =>
+	`https://api.steampowered.com/IPlayerService/GetOwnedGames/v1/?key=${key}`;
+
+// Whole seconds, so quarantine expiries can be compared exactly.
+let clock = Math.ceil(Date.now() / 1000) * 1000;
+let requestedKeys: string[] = [];
+let respond: (key: string) => Response = () => Response.json({ response: {} });
+
+function advanceClock(ms: number) {
+	clock += ms;
+	setSystemTime(clock);
+}
+
+async function getKeyStatus(key: string) {
+	const keys = await getSteamKeyPoolStatus();
+	return keys.find((status) => status.keySuffix === `…${key.slice(-4)}`);
+}
+
+describe("Steam API key pool", () => {
+	beforeEach(() => {
+		setSystemTime(clock);
+		requestedKeys = [];
+		respond = () => Response.json({ response: {} });
+		spyOn(globalThis, "fetch").mockImplementation((async (input: string | URL | Request) => {
+			const key = new URL(input instanceof Request ? input.url : input).searchParams.get("key") ?? "";
+			requestedKeys.push(key);
+			return respond(key);
+		}) as typeof fetch);
+	});
+
+	// Lets every quarantine lapse and sends one good request through each key,
+	// which resets its backoff, so the next test starts from a healthy pool.
+	afterEach(async () => {
+		advanceClock(2 * 60 * 60 * 1000);
+		respond = () => Response.json({ response: {} });
+		for (let i = 0; i < POOL_SIZE; i++) {
+			await fetchWithSteamKey(buildUrl);
+		}
+		mock.restore();
+		setSystemTime();
+	});
+
+	test("quarantines a rejected key and retries the request on another", async () => {
+		let rejectedKey: string | undefined;
+		respond = (key) => {
+			rejectedKey ??= key;
+			return key === rejectedKey
+				? new Response("Forbidden", { status: 403 })
+				: Response.json({ response: {} });
+		};
+
+		const response = await fetchWithSteamKey(buildUrl);
+
+		expect(response.status).toBe(200);
+		expect(requestedKeys).toHaveLength(2);
+		expect(requestedKeys[0]).toBe(rejectedKey!);
+		expect(requestedKeys[1]).not.toBe(rejectedKey!);
+		expect(await getKeyStatus(rejectedKey!)).toMatchObject({
+			healthy: false,
+			lastStatus: 403,
+			consecutiveFailures: 1,
+			quarantinedUntil: clock / 1000 + 60,
+		});
+	});
+
+	test("leaves a quarantined key out until its backoff has passed", async () => {
+		let rejectedKey: string | undefined;
+		respond = (key) => {
+			rejectedKey ??= key;
+			return key === rejectedKey
+				? new Response("Unauthorized", { status: 401 })
+				: Response.json({ response: {} });
+		};
+		await fetchWithSteamKey(buildUrl);
+		respond = () => Response.json({ response: {} });
+
+		requestedKeys = [];
+		for (let i = 0; i < POOL_SIZE * 2; i++) {
+			await fetchWithSteamKey(buildUrl);
+		}
+		expect(requestedKeys).not.toContain(rejectedKey!);
+
+		advanceClock(61 * 1000);
+		requestedKeys = [];
+		for (let i = 0; i < POOL_SIZE; i++) {
+			await fetchWithSteamKey(buildUrl);
+		}
+		expect(requestedKeys).toContain(rejectedKey!);
+		expect(await getKeyStatus(rejectedKey!)).toMatchObject({
+			healthy: true,
+			quarantinedUntil: null,
+			consecutiveFailures: 0,
+		});
+	});
+
+	test("doubles the backoff while a key keeps failing", async () => {
+		let rejectedKey: string | undefined;
+		respond = (key) => {
+			rejectedKey ??= key;
+			return key === rejectedKey
+				? new Response("Too Many Requests", { status: 429 })
+				: Response.json({ response: {} });
+		};
+		await fetchWithSteamKey(buildUrl);
+		advanceClock(61 * 1000);
+
+		requestedKeys = [];
+		for (let i = 0; i < POOL_SIZE && !requestedKeys.includes(rejectedKey!); i++) {
+			await fetchWithSteamKey(buildUrl);
+		}
+
+		expect(requestedKeys).toContain(rejectedKey!);
+		expect(await getKeyStatus(rejectedKey!)).toMatchObject({
+			healthy: false,
+			consecutiveFailures: 2,
+			quarantinedUntil: clock / 1000 + 120,
+		});
+	});
+
+	test("honours Retry-After and fails fast once every key is quarantined", async () => {
+		respond = () =>
+			new Response("Too Many Requests", {
+				status: 429,
+				headers: { "Retry-After": "600" },
+			});
+
+		const response = await fetchWithSteamKey(buildUrl);
+
+		// With no key left the last rejection is passed on as-is.
+		expect(response.status).toBe(429);
+		expect(new Set(requestedKeys).size).toBe(POOL_SIZE);
+		for (const status of await getSteamKeyPoolStatus()) {
+			expect(status).toMatchObject({ healthy: false, quarantinedUntil: clock / 1000 + 600 });
+		}
+
+		requestedKeys = [];
+		const rejection = fetchWithSteamKey(buildUrl);
+		await expect(rejection).rejects.toBeInstanceOf(SteamKeyPoolError);
+		await expect(rejection).rejects.toMatchObject({ status: 503 });
+		expect(requestedKeys).toEqual([]);
+	});
+
+	test("reports a rejected visitor key without retrying or touching the pool", async () => {
+		respond = () => new Response("Forbidden", { status: 403 });
+
+		const rejection = fetchWithSteamKey(buildUrl, { apiKeyOverride: "visitor-key" });
+
+		await expect(rejection).rejects.toBeInstanceOf(SteamKeyPoolError);
+		await expect(rejection).rejects.toMatchObject({ status: 403 });
+		expect(requestedKeys).toEqual(["visitor-key"]);
+		for (const status of await getSteamKeyPoolStatus()) {
+			expect(status.healthy).toBe(true);
+		}
+	});
+});
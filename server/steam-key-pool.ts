@@ -0,0 +1,412 @@
+import Bottleneck from "bottleneck";
+import { Counter, registerGauge } from "~/server/metrics";
+
+const STEAM_RATE_LIMIT_PER_KEY = 300;
+const STEAM_RATE_LIMIT_WINDOW_MS = 6 * 60 * 1000;
+const QUARANTINE_BASE_MS = 60 * 1000;
+const QUARANTINE_MAX_MS = 60 * 60 * 1000;
+const RECENT_OUTCOME_WINDOW_MS = 5 * 60 * 1000;
+// Longer than the rate-limit window, so an evicted limiter had a full reservoir anyway.
+const OVERRIDE_LIMITER_IDLE_MS = 10 * 60 * 1000;
+// Statuses that mean the key itself is revoked, invalid or rate limited.
+const DEFAULT_KEY_FAILURE_STATUSES: readonly number[] = [401, 403, 429];
+
+// Bottleneck runs lower numbers first; its default priority is 5.
+export const INTERACTIVE_REQUEST_PRIORITY = 5;
+export const BACKGROUND_REQUEST_PRIORITY = 9;
+
+export class SteamKeyPoolError extends Error {
+	status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = "SteamKeyPoolError";
+		this.status = status;
+	}
+}
+
+interface OverrideLimiterEntry {
+	limiter: Bottleneck;
+	lastUsedAt: number;
+}
+
+interface SteamApiKeyState {
+	key: string;
+	limiter: Bottleneck;
+	consecutiveFailures: number;
+	quarantinedUntil: number;
+	lastStatus: number | null;
+	lastFailureAt: number | null;
+	requestCount: number;
+	failureCount: number;
+}
+
+export interface SteamApiKeyStatus {
+	id: string;
+	keySuffix: string;
+	healthy: boolean;
+	quarantinedUntil: number | null;
+	consecutiveFailures: number;
+	lastStatus: number | null;
+	lastFailureAt: number | null;
+	requestCount: number;
+	failureCount: number;
+	reservoir: number | null;
+}
+
+export interface SteamFetchOptions {
+	apiKeyOverride?: string;
+	priority?: number;
+	keyFailureStatuses?: readonly number[];
+}
+
+const createKeyLimiter = () =>
+	new Bottleneck({
+		maxConcurrent: 1,
+		reservoir: STEAM_RATE_LIMIT_PER_KEY,
+		reservoirRefreshAmount: STEAM_RATE_LIMIT_PER_KEY,
+		reservoirRefreshInterval: STEAM_RATE_LIMIT_WINDOW_MS,
+	});
+
+const steamApiKeyList: string[] = (() => {
+	const csv = Bun.env.STEAM_API_KEYS;
+	if (csv) {
+		const keys = csv
+			.split(",")
+			.map((key) => key.trim())
+			.filter(Boolean);
+		if (keys.length > 0) {
+			console.log(`Using ${keys.length} Steam API keys from STEAM_API_KEYS`);
+			return keys;
+		}
+	}
+
+	const fallbackKey = Bun.env.STEAM_API_KEY?.trim();
+	if (fallbackKey) {
+		return [fallbackKey];
+	}
+
+	return [];
+})();
+
+const keyStates: SteamApiKeyState[] = steamApiKeyList.map((key) => ({
+	key,
+	limiter: createKeyLimiter(),
+	consecutiveFailures: 0,
+	quarantinedUntil: 0,
+	lastStatus: null,
+	lastFailureAt: null,
+	requestCount: 0,
+	failureCount: 0,
+}));
+
+// Visitor-supplied keys never touch the pool's reservoirs; each one gets its
+// own limiter, created on first use and dropped once it has been idle.
+const overrideLimiters = new Map<string, OverrideLimiterEntry>();
+
+let keyCursor = 0;
+
+// Outcomes of server-key calls over the last few minutes, for readiness checks.
+const recentOutcomes: { at: number; failed: boolean }[] = [];
+
+function pruneRecentOutcomes(now: number) {
+	while (recentOutcomes.length && (recentOutcomes[0]?.at ?? now) < now - RECENT_OUTCOME_WINDOW_MS) {
+		recentOutcomes.shift();
+	}
+}
+
+function recordSteamOutcome(failed: boolean) {
+	const now = Date.now();
+	recentOutcomes.push({ at: now, failed });
+	pruneRecentOutcomes(now);
+}
+
+const maskKey = (key: string) => `…${key.slice(-4)}`;
+
+const steamApiRequests = new Counter(
+	"steam_api_requests_total",
+	"Steam Web API calls by endpoint, response status and key (pool index or `visitor`).",
+);
+
+// "https://api.steampowered.com/IPlayerService/GetOwnedGames/v1/?…" → "IPlayerService/GetOwnedGames"
+function describeSteamEndpoint(url: string) {
+	try {
+		const [service, method] = new URL(url).pathname.split("/").filter(Boolean);
+		return service && method ? `${service}/${method}` : "unknown";
+	} catch {
+		return "unknown";
+	}
+}
+
+async function countedFetch(url: string, keyLabel: string) {
+	const endpoint = describeSteamEndpoint(url);
+	try {
+		const response = await fetch(url);
+		steamApiRequests.inc({ endpoint, status: String(response.status), key: keyLabel });
+		return response;
+	} catch (error) {
+		steamApiRequests.inc({ endpoint, status: "network_error", key: keyLabel });
+		throw error;
+	}
+}
+
+function selectHealthyKey(
+	exclude: Set<SteamApiKeyState>,
+): SteamApiKeyState | null {
+	const now = Date.now();
+	for (let offset = 0; offset < keyStates.length; offset++) {
+		const index = (keyCursor + offset) % keyStates.length;
+		const state = keyStates[index];
+		if (!state || exclude.has(state) || state.quarantinedUntil > now) {
+			continue;
+		}
+		keyCursor = (index + 1) % keyStates.length;
+		return state;
+	}
+	return null;
+}
+
+function quarantineKey(state: SteamApiKeyState, response: Response) {
+	const now = Date.now();
+	state.consecutiveFailures++;
+	state.failureCount++;
+	state.lastStatus = response.status;
+	state.lastFailureAt = now;
+
+	let backoffMs = Math.min(
+		QUARANTINE_MAX_MS,
+		QUARANTINE_BASE_MS * 2 ** (state.consecutiveFailures - 1),
+	);
+	const retryAfterSeconds = Number(response.headers.get("Retry-After"));
+	if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+		backoffMs = Math.max(backoffMs, retryAfterSeconds * 1000);
+	}
+	state.quarantinedUntil = now + backoffMs;
+
+	console.warn(
+		`Steam API key ${maskKey(state.key)} returned ${response.status}; quarantined for ${Math.round(backoffMs / 1000)}s`,
+	);
+}
+
+function evictIdleOverrideLimiters(now: number) {
+	for (const [key, entry] of overrideLimiters) {
+		const counts = entry.limiter.counts();
+		const busy = counts.RECEIVED + counts.QUEUED + counts.RUNNING + counts.EXECUTING > 0;
+		if (!busy && now - entry.lastUsedAt > OVERRIDE_LIMITER_IDLE_MS) {
+			overrideLimiters.delete(key);
+			void entry.limiter.disconnect();
+		}
+	}
+}
+
+function getOverrideLimiter(key: string) {
+	const now = Date.now();
+	evictIdleOverrideLimiters(now);
+
+	let entry = overrideLimiters.get(key);
+	if (!entry) {
+		entry = { limiter: createKeyLimiter(), lastUsedAt: now };
+		overrideLimiters.set(key, entry);
+	}
+	entry.lastUsedAt = now;
+	return entry.limiter;
+}
+
+function describeRejectedOverrideKey(status: number) {
+	switch (status) {
+		case 401:
+			return "Steam did not authorize the supplied API key.";
+		case 429:
+			return "Steam is rate limiting the supplied API key. Try again in a few minutes.";
+		default:
+			return "Steam rejected the supplied API key. Check that it is correct and has not been revoked.";
+	}
+}
+
+// A visitor's own key is used as-is with no failover, so a rejection is
+// reported back to them instead of being retried on the server's keys.
+async function fetchWithOverrideKey(
+	key: string,
+	buildUrl: (apiKey: string) => string,
+	priority: number,
+	failureStatuses: readonly number[],
+) {
+	const response = await getOverrideLimiter(key).schedule({ priority }, () =>
+		countedFetch(buildUrl(key), "visitor"),
+	);
+	if (failureStatuses.includes(response.status)) {
+		await response.body?.cancel();
+		throw new SteamKeyPoolError(
+			describeRejectedOverrideKey(response.status),
+			response.status,
+		);
+	}
+	return response;
+}
+
+// Requests go to the next healthy key. When Steam rejects the key itself the
+// key is quarantined with exponential backoff and the request moves on to
+// another key; if every key fails, the last response is returned as-is.
+export async function fetchWithSteamKey(
+	buildUrl: (apiKey: string) => string,
+	options: SteamFetchOptions = {},
+): Promise<Response> {
+	const priority = options.priority ?? INTERACTIVE_REQUEST_PRIORITY;
+	const failureStatuses = options.keyFailureStatuses ?? DEFAULT_KEY_FAILURE_STATUSES;
+	const override = options.apiKeyOverride?.trim();
+	if (override) {
+		return fetchWithOverrideKey(override, buildUrl, priority, failureStatuses);
+	}
+
+	if (!keyStates.length) {
+		throw new SteamKeyPoolError(
+			"STEAM_API_KEY or STEAM_API_KEYS must be configured",
+			500,
+		);
+	}
+
+	const attempted = new Set<SteamApiKeyState>();
+	let lastFailure: Response | null = null;
+
+	for (let state = selectHealthyKey(attempted); state; state = selectHealthyKey(attempted)) {
+		const current = state;
+		attempted.add(current);
+		current.requestCount++;
+		let response: Response;
+		try {
+			response = await current.limiter.schedule({ priority }, () =>
+				countedFetch(buildUrl(current.key), String(keyStates.indexOf(current) + 1)),
+			);
+		} catch (error) {
+			recordSteamOutcome(true);
+			throw error;
+		}
+
+		if (!failureStatuses.includes(response.status)) {
+			current.consecutiveFailures = 0;
+			recordSteamOutcome(response.status >= 500);
+			return response;
+		}
+
+		recordSteamOutcome(true);
+		quarantineKey(current, response);
+		await lastFailure?.body?.cancel();
+		lastFailure = response;
+	}
+
+	if (lastFailure) {
+		return lastFailure;
+	}
+
+	throw new SteamKeyPoolError(
+		"All Steam API keys are temporarily unavailable.",
+		503,
+	);
+}
+
+// Background work may only dip into the top `share` of the healthy keys'
+// reservoirs, so the rest of each rate-limit window stays available for visitors.
+export async function hasBackgroundSteamBudget(share: number): Promise<boolean> {
+	const now = Date.now();
+	const healthy = keyStates.filter((state) => state.quarantinedUntil <= now);
+	if (!healthy.length) {
+		return false;
+	}
+
+	const reservoirs = await Promise.all(
+		healthy.map((state) => state.limiter.currentReservoir()),
+	);
+	const remaining = reservoirs.reduce<number>(
+		(sum, reservoir) => sum + (reservoir ?? STEAM_RATE_LIMIT_PER_KEY),
+		0,
+	);
+	return remaining > healthy.length * STEAM_RATE_LIMIT_PER_KEY * (1 - share);
+}
+
+export interface SteamKeyPoolHealth {
+	configuredKeys: number;
+	healthyKeys: number;
+	recentRequests: number;
+	recentFailures: number;
+	windowSeconds: number;
+}
+
+export function getSteamKeyPoolHealth(): SteamKeyPoolHealth {
+	const now = Date.now();
+	pruneRecentOutcomes(now);
+	return {
+		configuredKeys: keyStates.length,
+		healthyKeys: keyStates.filter((state) => state.quarantinedUntil <= now).length,
+		recentRequests: recentOutcomes.length,
+		recentFailures: recentOutcomes.filter((outcome) => outcome.failed).length,
+		windowSeconds: RECENT_OUTCOME_WINDOW_MS / 1000,
+	};
+}
+
+export async function getSteamKeyPoolStatus(): Promise<SteamApiKeyStatus[]> {
+	const now = Date.now();
+	return Promise.all(
+		keyStates.map(async (state, index) => ({
+			id: `key-${index + 1}`,
+			keySuffix: maskKey(state.key),
+			healthy: state.quarantinedUntil <= now,
+			quarantinedUntil:
+				state.quarantinedUntil > now
+					? Math.ceil(state.quarantinedUntil / 1000)
+					: null,
+			consecutiveFailures: state.consecutiveFailures,
+			lastStatus: state.lastStatus,
+			lastFailureAt:
+				state.lastFailureAt === null ? null : Math.floor(state.lastFailureAt / 1000),
+			requestCount: state.requestCount,
+			failureCount: state.failureCount,
+			reservoir: await state.limiter.currentReservoir(),
+		})),
+	);
+}
+
+registerGauge(
+	"steam_api_reservoir_remaining",
+	"Requests left in each server key's current rate-limit window.",
+	() =>
+		Promise.all(
+			keyStates.map(async (state, index) => ({
+				labels: { key: String(index + 1) },
+				value: (await state.limiter.currentReservoir()) ?? STEAM_RATE_LIMIT_PER_KEY,
+			})),
+		),
+);
+
+registerGauge(
+	"steam_api_queue_depth",
+	"Steam requests waiting for a rate limiter, per server key and for visitor keys combined.",
+	() => {
+		const queued = (limiter: Bottleneck) => {
+			const counts = limiter.counts();
+			return counts.RECEIVED + counts.QUEUED;
+		};
+		let visitorQueued = 0;
+		for (const entry of overrideLimiters.values()) {
+			visitorQueued += queued(entry.limiter);
+		}
+		return [
+			...keyStates.map((state, index) => ({
+				labels: { key: String(index + 1) },
+				value: queued(state.limiter),
+			})),
+			{ labels: { key: "visitor" }, value: visitorQueued },
+		];
+	},
+);
+
+registerGauge(
+	"steam_api_key_healthy",
+	"1 when a server key is in rotation, 0 while it is quarantined.",
+	() => {
+		const now = Date.now();
+		return keyStates.map((state, index) => ({
+			labels: { key: String(index + 1) },
+			value: state.quarantinedUntil <= now ? 1 : 0,
+		}));
+	},
+);
@@ -0,0 +1,8 @@
+// Steam CDN addresses, shared by the server and templates/profile.js. Kept out
+// of mosaic.ts so that pages and the catalogue do not pull in the renderer.
+
+const STEAM_CDN_BASE = "https://cdn.steamstatic.com/steam/apps";
+
+export function headerArtUrl(appid: number) {
+	return `${STEAM_CDN_BASE}/${appid}/header.jpg`;
+}
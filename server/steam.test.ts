@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import {
+	cachePlaytimePayload,
+	clearPrivateProfile,
+	getCachedPlaytimeRecord,
+	getCachedPrivateProfile,
+} from "~/server/database";
+import { forceRefreshPlaytimePayload, SteamProfilePrivateError } from "~/server/steam";
+import * as steamKeyPool from "~/server/steam-key-pool";
+
+const STEAM_ID = "76561198000000301";
+
+const LIBRARY = {
+	game_count: 1,
+	games: [{ appid: 570, name: "Dota 2", playtime_forever: 600 }],
+};
+
+// What GetPlayerSummaries answers with; null makes the call fail.
+let visibilityState: number | null = 3;
+
+describe("private profile detection", () => {
+	beforeEach(async () => {
+		visibilityState = 3;
+		await clearPrivateProfile(STEAM_ID);
+		await cachePlaytimePayload(STEAM_ID, LIBRARY);
+		spyOn(steamKeyPool, "fetchWithSteamKey").mockImplementation(async (buildUrl) => {
+			const url = new URL(buildUrl("test-key"));
+			if (url.pathname.includes("GetOwnedGames")) {
+				// The same empty object Steam sends for hidden libraries and some errors.
+				return Response.json({ response: {} });
+			}
+			if (visibilityState === null) {
+				return new Response("Service Unavailable", { status: 503 });
+			}
+			return Response.json({
+				response: {
+					players: [
+						{
+							steamid: STEAM_ID,
+							personaname: "Player",
+							communityvisibilitystate: visibilityState,
+						},
+					],
+				},
+			});
+		});
+	});
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	test("drops the cached library once Steam confirms the profile is private", async () => {
+		visibilityState = 1;
+
+		const refresh = forceRefreshPlaytimePayload(STEAM_ID);
+
+		await expect(refresh).rejects.toBeInstanceOf(SteamProfilePrivateError);
+		await expect(refresh).rejects.toMatchObject({ reason: "private" });
+		expect(await getCachedPlaytimeRecord(STEAM_ID)).toBeNull();
+		expect(await getCachedPrivateProfile(STEAM_ID)).toBe("private");
+	});
+
+	test("keeps the cached library when a public profile sends an empty response", async () => {
+		const refresh = forceRefreshPlaytimePayload(STEAM_ID);
+
+		await expect(refresh).rejects.toMatchObject({ reason: "game_details_hidden" });
+		expect((await getCachedPlaytimeRecord(STEAM_ID))?.payload).toMatchObject({ game_count: 1 });
+		expect(await getCachedPrivateProfile(STEAM_ID)).toBeNull();
+	});
+
+	test("keeps the cached library when the visibility check fails", async () => {
+		visibilityState = null;
+
+		const refresh = forceRefreshPlaytimePayload(STEAM_ID);
+
+		await expect(refresh).rejects.toMatchObject({ reason: "game_details_hidden" });
+		expect((await getCachedPlaytimeRecord(STEAM_ID))?.payload).toMatchObject({ game_count: 1 });
+		expect(await getCachedPrivateProfile(STEAM_ID)).toBeNull();
+	});
+});
@@ -1,19 +1,97 @@
-import Bottleneck from "bottleneck";
-import type { CachedPlaytimePayload } from "~/server/database";
+import type {
+	CachedPlaytimePayload,
+	PlayerSummary,
+	PrivateProfileReason,
+} from "~/server/database";
 import {
+	attemptManualRefreshReservation,
+	cacheFriendList,
+	cachePlayerSummary,
 	cachePlaytimePayload,
+	cachePrivateProfile,
+	cacheVanityMiss,
 	cacheVanityResolution,
-	getCachedPlaytimePayload,
+	clearPrivateProfile,
+	deleteCachedVanityResolution,
+	getCachedFriendList,
+	getCachedPlayerSummaries,
+	getCachedPlaytimeRecord,
+	getCachedPrivateProfile,
+	getCachedVanityMiss,
 	getCachedVanityResolution,
+	MANUAL_REFRESH_COOLDOWN_SECONDS,
+	PLAYTIME_TTL_SECONDS,
+	releaseManualRefreshReservation,
 } from "~/server/database";
+import { cacheLookups } from "~/server/metrics";
+import {
+	BACKGROUND_REQUEST_PRIORITY,
+	fetchWithSteamKey,
+	INTERACTIVE_REQUEST_PRIORITY,
+	SteamKeyPoolError,
+} from "~/server/steam-key-pool";
 
 export interface SteamGame {
 	appid: number;
 	name?: string;
 	playtime_forever: number;
+	playtime_2weeks?: number;
+	playtime_windows_forever?: number;
+	playtime_mac_forever?: number;
+	playtime_linux_forever?: number;
+	playtime_deck_forever?: number;
 	rtime_last_played?: number;
 }
 
+export interface PlatformPlaytimeSummary {
+	windowsMinutes: number;
+	macMinutes: number;
+	linuxMinutes: number;
+	deckMinutes: number;
+}
+
+export function summarizePlatformPlaytime(
+	payload: CachedPlaytimePayload,
+): PlatformPlaytimeSummary {
+	const summary: PlatformPlaytimeSummary = {
+		windowsMinutes: 0,
+		macMinutes: 0,
+		linuxMinutes: 0,
+		deckMinutes: 0,
+	};
+	const minutesOf = (value: number | undefined) => Math.max(0, Number(value) || 0);
+	for (const game of payload.games) {
+		summary.windowsMinutes += minutesOf(game.playtime_windows_forever);
+		summary.macMinutes += minutesOf(game.playtime_mac_forever);
+		summary.linuxMinutes += minutesOf(game.playtime_linux_forever);
+		summary.deckMinutes += minutesOf(game.playtime_deck_forever);
+	}
+	return summary;
+}
+
+export type PlaytimeMode = "all" | "recent";
+
+export const PLAYTIME_MODES: readonly PlaytimeMode[] = ["all", "recent"];
+
+export function getGameMinutes(game: SteamGame, mode: PlaytimeMode): number {
+	const minutes = mode === "recent" ? game.playtime_2weeks : game.playtime_forever;
+	return Math.max(0, Number(minutes) || 0);
+}
+
+export function selectPlaytimeMode(
+	payload: CachedPlaytimePayload,
+	mode: PlaytimeMode,
+): CachedPlaytimePayload {
+	if (mode === "all") {
+		return payload;
+	}
+
+	const games = payload.games
+		.filter((game) => getGameMinutes(game, mode) > 0)
+		.sort((a, b) => getGameMinutes(b, mode) - getGameMinutes(a, mode));
+	return { game_count: games.length, games };
+}
+
 export interface SteamOwnedGamesResponse {
 	response?: {
 		game_count: number;
@@ -29,68 +107,38 @@ export interface SteamResolveVanityResponse {
 	};
 }
 
+export interface SteamFriendListResponse {
+	friendslist?: {
+		friends?: {
+			steamid: string;
+			relationship?: string;
+			friend_since?: number;
+		}[];
+	};
+}
+
+export interface SteamPlayerSummariesResponse {
+	response?: {
+		players?: {
+			steamid: string;
+			personaname?: string;
+			avatarfull?: string;
+			communityvisibilitystate?: number;
+		}[];
+	};
+}
+
 const STEAM_API_BASE =
 	"https://api.steampowered.com/IPlayerService/GetOwnedGames/v1/";
 const STEAM_VANITY_API_BASE =
 	"https://api.steampowered.com/ISteamUser/ResolveVanityURL/v1/";
+const STEAM_FRIEND_LIST_API_BASE =
+	"https://api.steampowered.com/ISteamUser/GetFriendList/v1/";
+const STEAM_PLAYER_SUMMARIES_API_BASE =
+	"https://api.steampowered.com/ISteamUser/GetPlayerSummaries/v2/";
+const PLAYER_SUMMARIES_BATCH_SIZE = 100;
 const steamIdPattern = /^\d{17}$/;
 
-const steamApiKeyList: string[] = (() => {
-	const csv = Bun.env.STEAM_API_KEYS;
-	if (csv) {
-		const keys = csv
-			.split(",")
-			.map((key) => key.trim())
-			.filter(Boolean);
-		if (keys.length > 0) {
-			console.log(`Using ${keys.length} Steam API keys from STEAM_API_KEYS`);
-			return keys;
-		}
-	}
-
-	const fallbackKey = Bun.env.STEAM_API_KEY?.trim();
-	if (fallbackKey) {
-		return [fallbackKey];
-	}
-
-	return [];
-})();
-
-const STEAM_RATE_LIMIT_PER_KEY = 300;
-const STEAM_RATE_LIMIT_WINDOW_MS = 6 * 60 * 1000;
-const steamApiKeyPoolSize = Math.max(1, steamApiKeyList.length);
-
-const steamRequestLimiter = new Bottleneck({
-	maxConcurrent: steamApiKeyPoolSize,
-	reservoir: steamApiKeyPoolSize * STEAM_RATE_LIMIT_PER_KEY,
-	reservoirRefreshAmount: steamApiKeyPoolSize * STEAM_RATE_LIMIT_PER_KEY,
-	reservoirRefreshInterval: STEAM_RATE_LIMIT_WINDOW_MS,
-});
-
-function limitedSteamFetch(input: string, init?: RequestInit) {
-	return steamRequestLimiter.schedule(() => fetch(input, init));
-}
-
-let steamApiKeyCursor = 0;
-
-function resolveSteamApiKey(override?: string): string {
-	const trimmedOverride = override?.trim();
-	if (trimmedOverride) {
-		return trimmedOverride;
-	}
-
-	if (steamApiKeyList.length === 0) {
-		throw new Error("STEAM_API_KEY or STEAM_API_KEYS must be configured");
-	}
-
-	const key = steamApiKeyList[steamApiKeyCursor];
-	if (key === undefined) {
-		throw new Error("Steam API key rotation failed due to missing key");
-	}
-	steamApiKeyCursor = (steamApiKeyCursor + 1) % steamApiKeyList.length;
-	return key;
-}
-
 function buildSteamRequestUrl(steamID: string, apiKey: string) {
 	const params = new URLSearchParams({
 		key: apiKey,
@@ -111,55 +159,94 @@ function buildVanityResolveUrl(identifier: string, apiKey: string) {
 	return `${STEAM_VANITY_API_BASE}?${params.toString()}`;
 }
 
+function buildFriendListUrl(steamID: string, apiKey: string) {
+	const params = new URLSearchParams({
+		key: apiKey,
+		steamid: steamID,
+		relationship: "friend",
+	});
+
+	return `${STEAM_FRIEND_LIST_API_BASE}?${params.toString()}`;
+}
+
+function buildPlayerSummariesUrl(steamIDs: string[], apiKey: string) {
+	const params = new URLSearchParams({
+		key: apiKey,
+		steamids: steamIDs.join(","),
+	});
+
+	return `${STEAM_PLAYER_SUMMARIES_API_BASE}?${params.toString()}`;
+}
+
+export type VanityResolutionSource = "steam_id" | "cache" | "live";
+export type VanityLookupSource = VanityResolutionSource | "negative_cache";
+
 export class SteamIdentifierError extends Error {
 	status: number;
+	source?: VanityLookupSource;
 
-	constructor(message: string, status = 400) {
+	constructor(message: string, status = 400, source?: VanityLookupSource) {
 		super(message);
 		this.name = "SteamIdentifierError";
 		this.status = status;
+		this.source = source;
 	}
 }
 
-export async function getVanityResolution(
-	rawIdentifier: string,
-	apiKeyOverride?: string,
-) {
-	const identifier = rawIdentifier.trim();
+export class PlaytimeRefreshCooldownError extends Error {
+	retryAfterSeconds: number;
 
-	if (!identifier) {
-		throw new SteamIdentifierError("Steam identifier is required.");
+	constructor(retryAfterSeconds: number) {
+		super("Playtime data was refreshed recently. Try again later.");
+		this.name = "PlaytimeRefreshCooldownError";
+		this.retryAfterSeconds = retryAfterSeconds;
 	}
+}
 
-	if (steamIdPattern.test(identifier)) {
-		return identifier;
-	}
+const PRIVATE_PROFILE_MESSAGES: Record<PrivateProfileReason, string> = {
+	private: "This Steam profile is private or only visible to friends.",
+	game_details_hidden: "This Steam profile hides its game details.",
+};
+
+export class SteamProfilePrivateError extends Error {
+	reason: PrivateProfileReason;
+	guidance =
+		"In Steam, open Edit Profile → Privacy Settings and set both \"My profile\" and \"Game details\" to Public. Steam can take a few minutes to apply the change.";
 
-	const cachedSteamID = await getCachedVanityResolution(identifier);
-	if (cachedSteamID) {
-		return cachedSteamID;
+	constructor(reason: PrivateProfileReason) {
+		super(PRIVATE_PROFILE_MESSAGES[reason]);
+		this.name = "SteamProfilePrivateError";
+		this.reason = reason;
 	}
+}
 
-	console.log(`No cached vanity resolution for "${identifier}", fetching...`);
-	let apiKey: string;
+export interface VanityResolution {
+	steamID: string;
+	source: VanityResolutionSource;
+	// Set when an expired mapping was served while a fresh lookup runs.
+	stale?: boolean;
+}
+
+async function resolveVanityFromSteam(identifier: string, apiKeyOverride?: string) {
+	let response: Response;
 	try {
-		apiKey = resolveSteamApiKey(apiKeyOverride);
+		response = await fetchWithSteamKey(
+			(apiKey) => buildVanityResolveUrl(identifier, apiKey),
+			{ apiKeyOverride },
+		);
 	} catch (error) {
-		const message =
-			error instanceof Error
-				? error.message
-				: "STEAM_API_KEY or STEAM_API_KEYS must be configured";
-		throw new SteamIdentifierError(message, 500);
+		if (error instanceof SteamKeyPoolError) {
+			throw new SteamIdentifierError(error.message, error.status, "live");
+		}
+		throw error;
 	}
 
-	const requestUrl = buildVanityResolveUrl(identifier, apiKey);
-	const response = await limitedSteamFetch(requestUrl);
-
 	if (!response.ok) {
 		const errorBody = await response.text();
 		throw new SteamIdentifierError(
 			`Steam API error (${response.status}): ${errorBody.slice(0, 200)}`,
 			502,
+			"live",
 		);
 	}
 
@@ -172,26 +259,222 @@ export async function getVanityResolution(
 	}
 
 	if (successCode === 42) {
-		throw new SteamIdentifierError(
-			message ?? "No vanity URL match found.",
-			404,
-		);
+		const missMessage = message ?? "No vanity URL match found.";
+		await cacheVanityMiss(identifier, missMessage);
+		throw new SteamIdentifierError(missMessage, 404, "live");
 	}
 
 	throw new SteamIdentifierError(
 		message ?? "Unable to resolve the vanity URL.",
 		502,
+		"live",
+	);
+}
+
+const pendingVanityRevalidations = new Map<string, Promise<unknown>>();
+
+function revalidateVanityResolution(identifier: string, apiKeyOverride?: string) {
+	const key = identifier.toLowerCase();
+	if (pendingVanityRevalidations.has(key)) {
+		return;
+	}
+
+	const revalidation = resolveVanityFromSteam(identifier, apiKeyOverride)
+		.catch((error) => {
+			console.warn(`Background vanity revalidation failed for "${identifier}":`, error);
+		})
+		.finally(() => {
+			pendingVanityRevalidations.delete(key);
+		});
+	pendingVanityRevalidations.set(key, revalidation);
+}
+
+export async function getVanityResolution(
+	rawIdentifier: string,
+	apiKeyOverride?: string,
+): Promise<VanityResolution> {
+	const identifier = rawIdentifier.trim();
+
+	if (!identifier) {
+		throw new SteamIdentifierError("Steam identifier is required.");
+	}
+
+	if (steamIdPattern.test(identifier)) {
+		return { steamID: identifier, source: "steam_id" };
+	}
+
+	const [cached, cachedMiss] = await Promise.all([
+		getCachedVanityResolution(identifier),
+		getCachedVanityMiss(identifier),
+	]);
+	if (cached) {
+		cacheLookups.inc({ cache: "vanity", result: cached.stale ? "expired" : "hit" });
+		if (cached.stale) {
+			console.log(`Serving expired vanity resolution for "${identifier}", revalidating...`);
+			revalidateVanityResolution(identifier, apiKeyOverride);
+		}
+		return { steamID: cached.steamId, source: "cache", stale: cached.stale };
+	}
+
+	if (cachedMiss) {
+		cacheLookups.inc({ cache: "vanity_miss", result: "hit" });
+		throw new SteamIdentifierError(cachedMiss, 404, "negative_cache");
+	}
+
+	cacheLookups.inc({ cache: "vanity", result: "miss" });
+
+	console.log(`No cached vanity resolution for "${identifier}", fetching...`);
+	const steamID = await resolveVanityFromSteam(identifier, apiKeyOverride);
+	return { steamID, source: "live" };
+}
+
+export async function invalidateVanityResolution(identifier: string) {
+	const removed = await deleteCachedVanityResolution(identifier);
+	if (removed) {
+		console.log(`Invalidated cached vanity resolution for "${identifier.trim()}"`);
+	}
+	return removed;
+}
+
+export async function getFriendSteamIds(
+	steamID: string,
+	apiKeyOverride?: string,
+): Promise<string[]> {
+	const cachedFriends = await getCachedFriendList(steamID);
+	if (cachedFriends) {
+		return cachedFriends;
+	}
+
+	console.log(`No cached friend list for SteamID ${steamID}, fetching...`);
+	// Steam answers 401 when the profile hides its friend list, so only 403 and
+	// 429 say anything about the key here.
+	const response = await fetchWithSteamKey(
+		(apiKey) => buildFriendListUrl(steamID, apiKey),
+		{ apiKeyOverride, keyFailureStatuses: [403, 429] },
+	);
+
+	if (response.status === 401) {
+		throw new SteamIdentifierError("This profile's friend list is private.", 403);
+	}
+
+	if (!response.ok) {
+		const errorBody = await response.text();
+		throw new SteamIdentifierError(
+			`Steam API error (${response.status}): ${errorBody.slice(0, 200)}`,
+			502,
+		);
+	}
+
+	const payload = (await response.json()) as SteamFriendListResponse;
+	const friendIds = (payload.friendslist?.friends ?? [])
+		.map((friend) => friend.steamid)
+		.filter((friendID) => steamIdPattern.test(friendID));
+
+	await cacheFriendList(steamID, friendIds);
+	return friendIds;
+}
+
+async function fetchPlayerSummaryBatch(steamIDs: string[], apiKeyOverride?: string) {
+	const response = await fetchWithSteamKey(
+		(apiKey) => buildPlayerSummariesUrl(steamIDs, apiKey),
+		{ apiKeyOverride },
+	);
+
+	if (!response.ok) {
+		const errorBody = await response.text();
+		throw new Error(
+			`Steam API error (${response.status}): ${errorBody.slice(0, 200)}`,
+		);
+	}
+
+	const payload = (await response.json()) as SteamPlayerSummariesResponse;
+	for (const player of payload.response?.players ?? []) {
+		if (!steamIDs.includes(player.steamid)) {
+			continue;
+		}
+		await cachePlayerSummary(
+			player.steamid,
+			player.personaname?.trim() || player.steamid,
+			player.avatarfull || null,
+			Number(player.communityvisibilitystate) || 0,
+		);
+	}
+}
+
+// Summaries only decorate other responses, so Steam failures are logged and the
+// caller gets whatever is already cached.
+export async function getPlayerSummaries(
+	steamIDs: string[],
+	apiKeyOverride?: string,
+): Promise<Map<string, PlayerSummary>> {
+	const uniqueIDs = [...new Set(steamIDs)].filter((id) => steamIdPattern.test(id));
+	const cached = await getCachedPlayerSummaries(uniqueIDs);
+	const missingIDs = uniqueIDs.filter((id) => !cached.has(id));
+	if (!missingIDs.length) {
+		return cached;
+	}
+
+	const batches: string[][] = [];
+	for (let index = 0; index < missingIDs.length; index += PLAYER_SUMMARIES_BATCH_SIZE) {
+		batches.push(missingIDs.slice(index, index + PLAYER_SUMMARIES_BATCH_SIZE));
+	}
+
+	const results = await Promise.allSettled(
+		batches.map((batch) => fetchPlayerSummaryBatch(batch, apiKeyOverride)),
 	);
+	for (const result of results) {
+		if (result.status === "rejected") {
+			console.warn("Failed to fetch Steam player summaries", result.reason);
+		}
+	}
+
+	return getCachedPlayerSummaries(uniqueIDs);
+}
+
+const isValidSteamGame = (game: SteamGame) =>
+	Number.isInteger(game?.appid) &&
+	game.appid > 0 &&
+	Number.isFinite(game.playtime_forever) &&
+	game.playtime_forever >= 0;
+
+// A key's owner can read their own library even when the profile is private,
+// so results fetched with a visitor's key only reach the shared cache (and the
+// leaderboards built from it) once Steam reports the profile as public.
+async function canShareVisitorKeyResult(steamID: string, apiKeyOverride: string) {
+	const summaries = await getPlayerSummaries([steamID], apiKeyOverride);
+	return summaries.get(steamID)?.profileVisibility === "public";
+}
+
+// Steam answers a hidden library with an empty `response` object, but some
+// transient errors and rate-limited calls look the same. Only a fresh summary
+// saying the profile is not public confirms it as "private"; otherwise an empty
+// response is reported as hidden game details.
+async function detectPrivateProfile(
+	steamID: string,
+	libraryHidden: boolean,
+	apiKeyOverride?: string,
+): Promise<PrivateProfileReason | null> {
+	try {
+		await fetchPlayerSummaryBatch([steamID], apiKeyOverride);
+		const summaries = await getCachedPlayerSummaries([steamID]);
+		if (summaries.get(steamID)?.profileVisibility === "private") {
+			return "private";
+		}
+	} catch (error) {
+		console.warn(`Failed to check the visibility of SteamID ${steamID}`, error);
+	}
+	return libraryHidden ? "game_details_hidden" : null;
 }
 
 async function fetchPlaytimeFromSteam(
 	steamID: string,
 	apiKeyOverride?: string,
+	priority = INTERACTIVE_REQUEST_PRIORITY,
 ): Promise<CachedPlaytimePayload> {
-	const apiKey = resolveSteamApiKey(apiKeyOverride);
-
-	const requestUrl = buildSteamRequestUrl(steamID, apiKey);
-	const steamResponse = await limitedSteamFetch(requestUrl);
+	const steamResponse = await fetchWithSteamKey(
+		(apiKey) => buildSteamRequestUrl(steamID, apiKey),
+		{ apiKeyOverride, priority },
+	);
 
 	if (!steamResponse.ok) {
 		const errorBody = await steamResponse.text();
@@ -205,9 +488,11 @@ async function fetchPlaytimeFromSteam(
 		`Found ${data.response?.game_count ?? 0} games for SteamID ${steamID}`,
 	);
 
+	const libraryHidden = typeof data.response?.game_count !== "number";
 	const response = data.response ?? { game_count: 0, games: [] };
-	const games =
-		response.games?.filter((game) => game.playtime_forever > 10) ?? [];
+	const games = (Array.isArray(response.games) ? response.games : []).filter(
+		(game) => isValidSteamGame(game) && game.playtime_forever > 10,
+	);
 
 	const payload: CachedPlaytimePayload = {
 		game_count: games.length,
@@ -215,24 +500,145 @@ async function fetchPlaytimeFromSteam(
 	};
 
 	if (payload.game_count === 0) {
+		const privateReason = await detectPrivateProfile(
+			steamID,
+			libraryHidden,
+			apiKeyOverride,
+		);
+		if (privateReason === "private") {
+			// Remembered briefly so repeat visits do not spend quota on it.
+			await cachePrivateProfile(steamID, privateReason);
+		}
+		if (privateReason) {
+			// Anything cached stays and is served as stale data, and the next
+			// fetch checks again.
+			throw new SteamProfilePrivateError(privateReason);
+		}
+		return payload;
+	}
+
+	if (apiKeyOverride?.trim() && !(await canShareVisitorKeyResult(steamID, apiKeyOverride))) {
+		console.log(
+			`Not caching playtime for SteamID ${steamID} fetched with a visitor key; profile is not public`,
+		);
 		return payload;
 	}
 
 	await cachePlaytimePayload(steamID, payload);
+	await clearPrivateProfile(steamID);
 
 	return payload;
 }
 
+export interface PlaytimeSnapshot {
+	payload: CachedPlaytimePayload;
+	fetchedAt: number;
+	stale: boolean;
+}
+
+const pendingRevalidations = new Map<string, Promise<unknown>>();
+
+function revalidatePlaytimePayload(steamID: string, apiKeyOverride?: string) {
+	if (pendingRevalidations.has(steamID)) {
+		return;
+	}
+
+	const revalidation = fetchPlaytimeFromSteam(steamID, apiKeyOverride)
+		.catch((error) => {
+			console.warn(`Background revalidation failed for SteamID ${steamID}:`, error);
+		})
+		.finally(() => {
+			pendingRevalidations.delete(steamID);
+		});
+	pendingRevalidations.set(steamID, revalidation);
+}
+
+const toSnapshot = (payload: CachedPlaytimePayload, fetchedAt: number) => ({
+	payload,
+	fetchedAt,
+	stale: Math.floor(Date.now() / 1000) - fetchedAt > PLAYTIME_TTL_SECONDS,
+});
+
+// Expired payloads are served straight away and refreshed behind the response,
+// so a slow or failing Steam API never hides data we already have.
+export async function getPlaytimeSnapshot(
+	steamID: string,
+	apiKeyOverride?: string,
+): Promise<PlaytimeSnapshot> {
+	const [cached, privateReason] = await Promise.all([
+		getCachedPlaytimeRecord(steamID),
+		// A visitor's key may belong to the profile's owner, who can still read it.
+		apiKeyOverride?.trim() ? null : getCachedPrivateProfile(steamID),
+	]);
+	if (privateReason) {
+		cacheLookups.inc({ cache: "private_profile", result: "hit" });
+		throw new SteamProfilePrivateError(privateReason);
+	}
+
+	if (cached) {
+		const snapshot = toSnapshot(cached.payload, cached.fetchedAt);
+		cacheLookups.inc({ cache: "playtime", result: snapshot.stale ? "expired" : "hit" });
+		if (snapshot.stale) {
+			console.log(`Serving stale playtime payload for SteamID ${steamID}, revalidating...`);
+			revalidatePlaytimePayload(steamID, apiKeyOverride);
+		}
+		return snapshot;
+	}
+
+	cacheLookups.inc({ cache: "playtime", result: "miss" });
+
+	console.log(`No cached playtime payload for SteamID ${steamID}, fetching...`);
+
+	const payload = await fetchPlaytimeFromSteam(steamID, apiKeyOverride);
+	return { payload, fetchedAt: Math.floor(Date.now() / 1000), stale: false };
+}
+
 export async function getPlaytimePayload(
 	steamID: string,
 	apiKeyOverride?: string,
 ): Promise<CachedPlaytimePayload> {
-	const cachedPayload = await getCachedPlaytimePayload(steamID);
-	if (cachedPayload) {
-		return cachedPayload;
+	const snapshot = await getPlaytimeSnapshot(steamID, apiKeyOverride);
+	return snapshot.payload;
+}
+
+export async function refreshPlaytimeSnapshot(
+	steamID: string,
+	apiKeyOverride?: string,
+): Promise<PlaytimeSnapshot> {
+	const requestedAt = Math.floor(Date.now() / 1000);
+	const reservation = await attemptManualRefreshReservation(
+		steamID,
+		requestedAt,
+		MANUAL_REFRESH_COOLDOWN_SECONDS,
+	);
+
+	if (!reservation.allowed) {
+		throw new PlaytimeRefreshCooldownError(reservation.retryAfterSeconds);
 	}
 
-	console.log(`No cached playtime payload for SteamID ${steamID}, fetching...`);
+	console.log(`Manual refresh requested for SteamID ${steamID}, fetching...`);
+
+	try {
+		const payload = await fetchPlaytimeFromSteam(steamID, apiKeyOverride);
+		return { payload, fetchedAt: Math.floor(Date.now() / 1000), stale: false };
+	} catch (error) {
+		// A failed fetch should not lock the profile out for the whole cooldown.
+		// The error reaches the caller (a 502 for Steam failures) so a refresh
+		// that did not happen is never reported as done.
+		await releaseManualRefreshReservation(steamID, requestedAt);
+		throw error;
+	}
+}
 
-	return fetchPlaytimeFromSteam(steamID, apiKeyOverride);
+// Skips the manual refresh cooldown; only reachable through the admin API.
+export async function forceRefreshPlaytimePayload(
+	steamID: string,
+): Promise<CachedPlaytimePayload> {
+	return fetchPlaytimeFromSteam(steamID);
+}
+
+export async function refreshExpiredPlaytimePayload(
+	steamID: string,
+): Promise<CachedPlaytimePayload> {
+	return fetchPlaytimeFromSteam(steamID, undefined, BACKGROUND_REQUEST_PRIORITY);
 }
@@ -0,0 +1,85 @@
+import { SQL } from "bun";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// A throwaway database for tests that run the CLIs against a real file or
+// server rather than the in-memory one from test-setup.ts.
+export interface TestDatabase {
+	// What STEAM_CACHE_URL is set to for the CLI under test.
+	cacheUrl: string;
+	db: SQL;
+	listColumns(table: string): Promise<string[]>;
+	dispose(): Promise<void>;
+}
+
+async function openSqliteDatabase(): Promise<TestDatabase> {
+	const path = join(tmpdir(), `playtime-test-${crypto.randomUUID()}.db`);
+	const db = new SQL(path, { adapter: "sqlite" });
+	return {
+		cacheUrl: path,
+		db,
+		async listColumns(table) {
+			const rows = await db`SELECT name FROM pragma_table_info(${table})`;
+			return (rows as Array<{ name: string }>).map((row) => row.name);
+		},
+		async dispose() {
+			await db.close();
+			await Promise.all(
+				["", "-wal", "-shm"].map((suffix) => rm(path + suffix, { force: true })),
+			);
+		},
+	};
+}
+
+// Set TEST_POSTGRES_URL to an account that may create databases to run the
+// same checks against Postgres; each test gets a database of its own.
+const TEST_POSTGRES_URL = Bun.env.TEST_POSTGRES_URL;
+
+async function openPostgresDatabase(): Promise<TestDatabase> {
+	const name = `playtime_test_${crypto.randomUUID().replaceAll("-", "")}`;
+	const server = new SQL(TEST_POSTGRES_URL!);
+	await server`CREATE DATABASE ${server(name)}`;
+	const url = new URL(TEST_POSTGRES_URL!);
+	url.pathname = `/${name}`;
+	const db = new SQL(url.href);
+	return {
+		cacheUrl: url.href,
+		db,
+		async listColumns(table) {
+			const rows = await db`
+				SELECT column_name AS name
+				FROM information_schema.columns
+				WHERE table_schema = current_schema() AND table_name = ${table}
+			`;
+			return (rows as Array<{ name: string }>).map((row) => row.name);
+		},
+		async dispose() {
+			await db.close();
+			await server`DROP DATABASE ${server(name)} WITH (FORCE)`;
+			await server.close();
+		},
+	};
+}
+
+export const BACKENDS: [string, () => Promise<TestDatabase>][] = [
+	["SQLite", openSqliteDatabase],
+];
+if (TEST_POSTGRES_URL) {
+	BACKENDS.push(["Postgres", openPostgresDatabase]);
+}
+
+export async function runCli(cacheUrl: string, script: string, ...args: string[]) {
+	const child = Bun.spawn([process.execPath, script, ...args], {
+		cwd: join(import.meta.dir, ".."),
+		env: { ...Bun.env, STEAM_CACHE_URL: cacheUrl },
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	const [exitCode, stdout, stderr] = await Promise.all([
+		child.exited,
+		new Response(child.stdout).text(),
+		new Response(child.stderr).text(),
+	]);
+	return { exitCode, stdout, stderr };
+}
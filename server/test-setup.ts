@@ -0,0 +1,4 @@
+// Loaded before every test file (see bunfig.toml). Modules read these at
+// import time, so tests run against a throwaway database and fake keys.
+Bun.env.STEAM_CACHE_URL = ":memory:";
+Bun.env.STEAM_API_KEYS = "test-key-1,test-key-2,test-key-3";
@@ -0,0 +1,1047 @@
+import { computeGridLayout } from '../server/layout';
+import { headerArtUrl } from '../server/steam-urls';
+
+const STEAM_ID64_PATTERN = /^\d{17}$/;
+
+const isSteamId64 = (value) =>
+	typeof value === 'string' && STEAM_ID64_PATTERN.test(value.trim());
+
+let matchedIdentifier = '';
+
+if (typeof URLPattern === 'function') {
+	const defaultPattern = new URLPattern({ pathname: '/:identifier' });
+	const defaultMatch = defaultPattern.exec(window.location);
+	if (defaultMatch?.pathname?.groups?.identifier) {
+		matchedIdentifier = defaultMatch.pathname.groups.identifier;
+	}
+} else {
+	const rawPath = window.location.pathname || '';
+	const rawIdentifierSegment = rawPath.replace(/^\/+/, '');
+	matchedIdentifier = rawIdentifierSegment.split('/').find((segment) => segment.length > 0) ?? '';
+}
+
+let submittedIdentifier = matchedIdentifier ? matchedIdentifier.trim() : '';
+let resolvedSteamId64 = isSteamId64(submittedIdentifier)
+	? submittedIdentifier
+	: null;
+let displayIdentifier = submittedIdentifier;
+
+const PAGE_TITLE_BASE = "Playtime Panorama";
+const updateDocumentTitle = (identifier) => {
+	const next = typeof identifier === "string" ? identifier.trim() : "";
+	document.title = next ? `${next}'s ${PAGE_TITLE_BASE}` : PAGE_TITLE_BASE;
+};
+
+if (displayIdentifier) {
+	updateDocumentTitle(displayIdentifier);
+} else {
+	updateDocumentTitle(submittedIdentifier);
+}
+const statusEl = document.getElementById('status');
+const stageEl = document.getElementById('games-stage');
+const gamesContainer = document.getElementById('games');
+const downloadButton = document.getElementById('download-button');
+const downloadLabel = downloadButton?.querySelector('.button-label');
+const downloadSvgButton = document.getElementById('download-svg-button');
+const refreshButton = document.getElementById('refresh-button');
+const refreshLabel = refreshButton?.querySelector('.button-label');
+const historySummaryEl = document.getElementById('history-summary');
+const dataAgeEl = document.getElementById('data-age');
+const modeButton = document.getElementById('mode-button');
+const modeLabel = modeButton?.querySelector('.button-label');
+const platformButton = document.getElementById('platform-button');
+const platformLabel = platformButton?.querySelector('.button-label');
+const API_ENDPOINT_BASE = '/api/playtime/';
+const LAST_VISIT_STORAGE_PREFIX = 'playtime_last_visit:';
+
+// Get stored API key from localStorage
+const getUserApiKey = () => {
+	try {
+		return localStorage.getItem('steam_api_key') || '';
+	} catch {
+		return '';
+	}
+};
+
+// Helper to build URL with API key parameter
+const buildApiUrl = (path) => {
+	const apiKey = getUserApiKey();
+	if (apiKey) {
+		const separator = path.includes('?') ? '&' : '?';
+		return `${path}${separator}api_key=${encodeURIComponent(apiKey)}`;
+	}
+	return path;
+};
+
+const DOWNLOAD_LABEL_DEFAULT = 'Download mosaic';
+const DOWNLOAD_LABEL_BUSY = 'Preparing...';
+const DOWNLOAD_LABEL_ERROR = 'Download failed — retry';
+const REFRESH_LABEL_DEFAULT = 'Refresh data';
+const REFRESH_LABEL_BUSY = 'Refreshing...';
+const REFRESH_LABEL_ERROR = 'Refresh failed — retry';
+const MODE_LABELS = {
+	all: 'Last 2 weeks',
+	recent: 'All time',
+};
+const PLATFORMS = [
+	{ id: 'all', label: 'All platforms', field: null },
+	{ id: 'windows', label: 'Windows only', field: 'playtime_windows_forever' },
+	{ id: 'mac', label: 'Mac only', field: 'playtime_mac_forever' },
+	{ id: 'linux', label: 'Linux only', field: 'playtime_linux_forever' },
+	{ id: 'deck', label: 'Steam Deck only', field: 'playtime_deck_forever' },
+];
+let sourceGames = [];
+let playtimeMode =
+	new URLSearchParams(window.location.search).get('mode') === 'recent' ? 'recent' : 'all';
+let platform =
+	PLATFORMS.find((option) => option.id === new URLSearchParams(window.location.search).get('platform')) ??
+	PLATFORMS[0];
+let resizeFrame = 0;
+let downloadInProgress = false;
+let refreshInProgress = false;
+let refreshAvailableAt = 0;
+let refreshTimer = 0;
+const imageBitmapCache = new WeakMap();
+const setButtonLabel = (labelEl, buttonEl, text) => {
+	const next =
+		typeof text === 'string'
+			? text
+			: typeof text === 'number'
+				? String(text)
+				: '';
+	if (labelEl) {
+		labelEl.textContent = next;
+	} else if (buttonEl) {
+		buttonEl.textContent = next;
+	}
+};
+// A platform filter hides games never played there; outside recent mode the
+// tiles are also sized by that platform's hours.
+const getPrimaryMinutes = (game) => {
+	if (platform.field && !(Number(game?.[platform.field]) > 0)) {
+		return 0;
+	}
+	const field =
+		playtimeMode === 'recent'
+			? 'playtime_2weeks'
+			: platform.field ?? 'playtime_forever';
+	const minutes = Number(game?.[field] ?? 0);
+	return Number.isFinite(minutes) ? minutes : 0;
+};
+
+const setDownloadState = (state) => {
+	if (!downloadButton) {
+		return;
+	}
+
+	if (downloadSvgButton) {
+		downloadSvgButton.disabled = state !== 'ready' && state !== 'error';
+	}
+
+	switch (state) {
+		case 'ready': {
+			downloadButton.disabled = false;
+			setButtonLabel(downloadLabel, downloadButton, DOWNLOAD_LABEL_DEFAULT);
+			downloadButton.dataset.state = 'ready';
+			break;
+		}
+		case 'busy': {
+			downloadButton.disabled = true;
+			setButtonLabel(downloadLabel, downloadButton, DOWNLOAD_LABEL_BUSY);
+			downloadButton.dataset.state = 'busy';
+			break;
+		}
+		case 'error': {
+			downloadButton.disabled = false;
+			setButtonLabel(downloadLabel, downloadButton, DOWNLOAD_LABEL_ERROR);
+			downloadButton.dataset.state = 'error';
+			break;
+		}
+		default: {
+			downloadButton.disabled = true;
+			setButtonLabel(downloadLabel, downloadButton, DOWNLOAD_LABEL_DEFAULT);
+			downloadButton.dataset.state = 'disabled';
+		}
+	}
+};
+
+setDownloadState('disabled');
+
+
+const waitForImageLoad = (img) => {
+	if (!img) {
+		return Promise.reject(new Error('Missing image element.'));
+	}
+
+	if (img.complete) {
+		if (img.naturalWidth > 0 && img.naturalHeight > 0) {
+			return Promise.resolve();
+		}
+		return Promise.reject(new Error('Failed to load image asset.'));
+	}
+
+	return new Promise((resolve, reject) => {
+		const handleLoad = () => {
+			cleanup();
+			resolve();
+		};
+		const handleError = (event) => {
+			cleanup();
+			reject(event?.error || new Error('Failed to load image asset.'));
+		};
+		const cleanup = () => {
+			img.removeEventListener('load', handleLoad);
+			img.removeEventListener('error', handleError);
+		};
+
+		img.addEventListener('load', handleLoad, { once: true });
+		img.addEventListener('error', handleError, { once: true });
+	});
+};
+
+const getDrawableAsset = async (img) => {
+	await waitForImageLoad(img);
+
+	if (typeof createImageBitmap === 'function') {
+		let bitmapPromise = imageBitmapCache.get(img);
+		if (!bitmapPromise) {
+			bitmapPromise = createImageBitmap(img).catch((error) => {
+				imageBitmapCache.delete(img);
+				throw error;
+			});
+			imageBitmapCache.set(img, bitmapPromise);
+		}
+		return await bitmapPromise;
+	}
+
+	return img;
+};
+
+const downloadMosaicImage = async () => {
+	if (!gamesContainer) {
+		return;
+	}
+
+	const cards = Array.from(gamesContainer.querySelectorAll('.game-card'));
+	if (!cards.length) {
+		setDownloadState('disabled');
+		throw new Error('No games were found to export.');
+	}
+
+	const containerRect = gamesContainer.getBoundingClientRect();
+	const width = Math.round(containerRect.width);
+	const height = Math.round(containerRect.height);
+
+	if (width <= 0 || height <= 0) {
+		throw new Error('The mosaic is not ready to export.');
+	}
+
+	const pixelRatio = window.devicePixelRatio || 1;
+	const exportScale = Math.min(4, Math.max(2, Math.ceil(pixelRatio * 2)));
+	const maxDimension = 8192;
+	const safeScale = Math.min(
+		exportScale,
+		maxDimension / Math.max(width, 1),
+		maxDimension / Math.max(height, 1),
+	);
+	const scale = Math.max(1, safeScale);
+	const canvasWidth = Math.max(1, Math.round(width * scale));
+	const canvasHeight = Math.max(1, Math.round(height * scale));
+
+	const canvas = document.createElement('canvas');
+	canvas.width = canvasWidth;
+	canvas.height = canvasHeight;
+	const context = canvas.getContext('2d');
+
+	if (!context) {
+		throw new Error('Canvas is not supported in this browser.');
+	}
+
+	context.fillStyle = '#05060f';
+	context.fillRect(0, 0, canvasWidth, canvasHeight);
+
+	let drawnTiles = 0;
+	for (const card of cards) {
+		const img = card.querySelector('img');
+		if (!img || (!img.currentSrc && !img.src)) {
+			continue;
+		}
+		const rect = card.getBoundingClientRect();
+		const drawWidth = rect.width;
+		const drawHeight = rect.height;
+		if (drawWidth <= 0 || drawHeight <= 0) {
+			continue;
+		}
+
+		const left = rect.left - containerRect.left;
+		const top = rect.top - containerRect.top;
+		let drawable;
+		try {
+			drawable = await getDrawableAsset(img);
+		} catch (error) {
+			console.warn('Skipping mosaic tile due to image load failure:', error);
+			continue;
+		}
+
+		context.drawImage(
+			drawable,
+			left * scale,
+			top * scale,
+			drawWidth * scale,
+			drawHeight * scale,
+		);
+		drawnTiles++;
+	}
+
+	if (drawnTiles === 0) {
+		throw new Error('No playable tiles were available to export.');
+	}
+
+	const blob = await new Promise((resolve, reject) => {
+		canvas.toBlob(
+			(result) => {
+				if (result) {
+					resolve(result);
+				} else {
+					reject(new Error('Failed to export the mosaic image.'));
+				}
+			},
+			'image/png',
+			0.98,
+		);
+	});
+
+	const labelSource = resolvedSteamId64 ?? displayIdentifier ?? '';
+	const steamLabel = labelSource
+		? labelSource.trim().replace(/[^\w.-]+/g, '-')
+		: '';
+	const filename = `${steamLabel || 'playtime-panorama'}-mosaic.png`;
+	const objectUrl = URL.createObjectURL(blob);
+
+	const link = document.createElement('a');
+	link.href = objectUrl;
+	link.download = filename;
+	document.body.append(link);
+	link.click();
+	link.remove();
+
+	setTimeout(() => {
+		URL.revokeObjectURL(objectUrl);
+	}, 4000);
+};
+
+const handleDownloadClick = async (event) => {
+	event?.preventDefault();
+	if (downloadInProgress) {
+		return;
+	}
+
+	downloadInProgress = true;
+	setDownloadState('busy');
+	try {
+		await downloadMosaicImage();
+		setDownloadState('ready');
+	} catch (error) {
+		console.error(error);
+		if (
+			error instanceof Error &&
+			(error.message.includes('No games') || error.message.includes('No playable'))
+		) {
+			setDownloadState('disabled');
+		} else {
+			setDownloadState('error');
+		}
+	} finally {
+		downloadInProgress = false;
+	}
+};
+
+if (downloadButton) {
+	downloadButton.addEventListener('click', (event) => {
+		void handleDownloadClick(event);
+	});
+}
+
+const downloadMosaicSvg = () => {
+	const lookupIdentifier = resolvedSteamId64 ?? submittedIdentifier;
+	if (!lookupIdentifier) {
+		return;
+	}
+
+	const { width, height } = getStageDimensions();
+	const params = new URLSearchParams({
+		width: String(width),
+		height: String(height),
+	});
+	if (playtimeMode === 'recent') {
+		params.set('mode', playtimeMode);
+	}
+	const link = document.createElement('a');
+	link.href = buildApiUrl(
+		`/api/mosaic/${encodeURIComponent(lookupIdentifier)}.svg?${params.toString()}`,
+	);
+	const steamLabel = lookupIdentifier.trim().replace(/[^\w.-]+/g, '-');
+	link.download = `${steamLabel || 'playtime-panorama'}-mosaic.svg`;
+	document.body.append(link);
+	link.click();
+	link.remove();
+};
+
+if (downloadSvgButton) {
+	downloadSvgButton.addEventListener('click', (event) => {
+		event.preventDefault();
+		downloadMosaicSvg();
+	});
+}
+
+const formatCooldown = (seconds) => {
+	const minutes = Math.max(1, Math.ceil(seconds / 60));
+	const hours = Math.floor(minutes / 60);
+	const remainder = minutes % 60;
+	if (hours && remainder) {
+		return `${hours}h ${remainder}m`;
+	}
+	if (hours) {
+		return `${hours}h`;
+	}
+	return `${minutes}m`;
+};
+
+const updateRefreshButton = () => {
+	if (!refreshButton) {
+		return;
+	}
+
+	clearTimeout(refreshTimer);
+
+	if (refreshInProgress) {
+		refreshButton.disabled = true;
+		setButtonLabel(refreshLabel, refreshButton, REFRESH_LABEL_BUSY);
+		refreshButton.dataset.state = 'busy';
+		return;
+	}
+
+	const remaining = refreshAvailableAt - Math.floor(Date.now() / 1000);
+	if (remaining > 0) {
+		refreshButton.disabled = true;
+		setButtonLabel(
+			refreshLabel,
+			refreshButton,
+			`Refresh in ${formatCooldown(remaining)}`,
+		);
+		refreshButton.dataset.state = 'cooldown';
+		refreshTimer = setTimeout(updateRefreshButton, Math.min(remaining, 30) * 1000);
+		return;
+	}
+
+	refreshButton.disabled = false;
+	setButtonLabel(refreshLabel, refreshButton, REFRESH_LABEL_DEFAULT);
+	refreshButton.dataset.state = 'ready';
+};
+
+const setRefreshAvailableAt = (value) => {
+	const timestamp = Number(value);
+	refreshAvailableAt = Number.isFinite(timestamp) ? timestamp : 0;
+	updateRefreshButton();
+};
+
+const handleRefreshClick = async (event) => {
+	event?.preventDefault();
+	const lookupIdentifier = resolvedSteamId64 ?? submittedIdentifier;
+	if (refreshInProgress || !lookupIdentifier) {
+		return;
+	}
+
+	refreshInProgress = true;
+	updateRefreshButton();
+	let failed = false;
+	try {
+		const url = buildApiUrl(
+			`${API_ENDPOINT_BASE}${encodeURIComponent(lookupIdentifier)}/refresh`,
+		);
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: {
+				Accept: 'application/json',
+			},
+		});
+
+		if (response.status === 429) {
+			const retryAfter = Number(response.headers.get('Retry-After'));
+			if (Number.isFinite(retryAfter) && retryAfter > 0) {
+				refreshAvailableAt = Math.floor(Date.now() / 1000) + retryAfter;
+			}
+			return;
+		}
+
+		if (!response.ok) {
+			throw new Error('Failed to refresh playtime data.');
+		}
+
+		const payload = await response.json();
+		refreshInProgress = false;
+		applyPlaytimePayload(payload);
+	} catch (error) {
+		console.error(error);
+		failed = true;
+	} finally {
+		refreshInProgress = false;
+		updateRefreshButton();
+		if (failed) {
+			setButtonLabel(refreshLabel, refreshButton, REFRESH_LABEL_ERROR);
+			refreshButton.dataset.state = 'error';
+		}
+	}
+};
+
+if (refreshButton) {
+	refreshButton.addEventListener('click', (event) => {
+		void handleRefreshClick(event);
+	});
+}
+
+const px = (value) => Math.round(value * 100) / 100 + 'px';
+
+const getStageDimensions = () => {
+	const rect = stageEl?.getBoundingClientRect();
+	const style = stageEl ? window.getComputedStyle(stageEl) : null;
+	const paddingX = style
+		? parseFloat(style.paddingLeft || '0') + parseFloat(style.paddingRight || '0')
+		: 0;
+	const paddingY = style
+		? parseFloat(style.paddingTop || '0') + parseFloat(style.paddingBottom || '0')
+		: 0;
+
+	const innerWidth = Math.max((rect?.width || window.innerWidth || 0) - paddingX, 1);
+	const innerHeight = Math.max((rect?.height || window.innerHeight || 0) - paddingY, 1);
+
+	return {
+		width: Math.floor(innerWidth),
+		height: Math.floor(innerHeight),
+	};
+};
+
+const placeGames = () => {
+	if (!gamesContainer || !stageEl) {
+		return;
+	}
+
+	const playable = sourceGames
+		.filter(
+			(game) =>
+				typeof game?.appid === 'number' && getPrimaryMinutes(game) > 0,
+		)
+		.sort((a, b) => getPrimaryMinutes(b) - getPrimaryMinutes(a));
+
+	if (!playable.length) {
+		gamesContainer.replaceChildren();
+		showError({
+			title: 'No playtime data available',
+			body:
+				playtimeMode === 'recent'
+					? 'No games were played in the last two weeks. Switch back to all-time playtime to see the full library.'
+					: platform.field
+						? 'No games have recorded playtime on this platform. Switch back to all platforms to see the full library.'
+						: 'We could not find any games with recorded playtime.',
+			hint: API_LIMIT_HINT,
+			actions: [createApiKeyHelpAction()],
+		});
+		return;
+	}
+
+	const { width: stageWidth, height: stageHeight } = getStageDimensions();
+
+	const items = playable.map((game) => ({
+		id: game.appid,
+		hours: Math.max(getPrimaryMinutes(game), 0) / 60,
+	}));
+
+	const layout = computeGridLayout(items, stageWidth, stageHeight);
+
+	if (!layout.cells.length || layout.rowHeight <= 0) {
+		statusEl?.classList.add('error');
+		statusEl?.classList.remove('hidden');
+		setDownloadState('disabled');
+		return;
+	}
+
+	const gameById = new Map(playable.map((game) => [game.appid, game]));
+	const fragment = document.createDocumentFragment();
+
+	for (const cell of layout.cells) {
+		const game = gameById.get(cell.id);
+		if (!game) {
+			continue;
+		}
+
+		const card = document.createElement('article');
+		card.className = 'game-card';
+		card.style.gridColumn = `span ${cell.span}`;
+		card.style.gridRow = `span ${cell.span}`;
+		const hours = Math.max(getPrimaryMinutes(game), 0) / 60;
+		card.dataset.hours = `${hours.toLocaleString(undefined, {
+			maximumFractionDigits: hours < 10 ? 1 : 0,
+		})} hrs`;
+
+		const img = document.createElement('img');
+		img.loading = 'eager';
+		img.decoding = 'async';
+		img.crossOrigin = 'anonymous';
+		img.src = headerArtUrl(game.appid);
+		img.alt = game.name ?? `App ${game.appid}`;
+
+		card.append(img);
+		fragment.append(card);
+	}
+
+	gamesContainer.style.setProperty('--columns', String(layout.columns));
+	gamesContainer.style.setProperty('--row-size', px(layout.rowHeight));
+	gamesContainer.replaceChildren(fragment);
+	statusEl?.classList.remove('error');
+	statusEl?.classList.remove('has-message');
+	statusEl?.classList.add('hidden');
+	if (statusEl) {
+		statusEl.textContent = '';
+	}
+	setDownloadState('ready');
+};
+
+const showLoader = () => {
+	statusEl?.classList.remove('error');
+	statusEl?.classList.remove('has-message');
+	statusEl?.classList.remove('hidden');
+	if (statusEl) {
+		statusEl.textContent = '';
+	}
+	setDownloadState('disabled');
+};
+
+const renderGames = (games) => {
+	sourceGames = Array.isArray(games) ? games : [];
+	if (!sourceGames.length) {
+		setDownloadState('disabled');
+		showError({
+			title: 'No playtime data available',
+			body: 'If this is your profile, make sure your Steam Game Details privacy is set to Public.',
+			hint: API_LIMIT_HINT,
+			actions: [createApiKeyHelpAction()],
+		});
+		return;
+	}
+	placeGames();
+};
+
+const setPlaytimeMode = (mode) => {
+	playtimeMode = mode === 'recent' ? 'recent' : 'all';
+	setButtonLabel(modeLabel, modeButton, MODE_LABELS[playtimeMode]);
+	const url = new URL(window.location.href);
+	if (playtimeMode === 'recent') {
+		url.searchParams.set('mode', playtimeMode);
+	} else {
+		url.searchParams.delete('mode');
+	}
+	window.history.replaceState(null, '', url);
+};
+
+setPlaytimeMode(playtimeMode);
+
+const setPlatform = (next) => {
+	platform = next ?? PLATFORMS[0];
+	setButtonLabel(platformLabel, platformButton, platform.label);
+	const url = new URL(window.location.href);
+	if (platform.field) {
+		url.searchParams.set('platform', platform.id);
+	} else {
+		url.searchParams.delete('platform');
+	}
+	window.history.replaceState(null, '', url);
+};
+
+setPlatform(platform);
+
+if (platformButton) {
+	platformButton.addEventListener('click', (event) => {
+		event.preventDefault();
+		const index = PLATFORMS.indexOf(platform);
+		setPlatform(PLATFORMS[(index + 1) % PLATFORMS.length]);
+		if (sourceGames.length) {
+			placeGames();
+		}
+	});
+}
+
+if (modeButton) {
+	modeButton.addEventListener('click', (event) => {
+		event.preventDefault();
+		setPlaytimeMode(playtimeMode === 'recent' ? 'all' : 'recent');
+		if (sourceGames.length) {
+			placeGames();
+		}
+	});
+}
+
+window.addEventListener('resize', () => {
+	if (!sourceGames.length) {
+		return;
+	}
+
+	cancelAnimationFrame(resizeFrame);
+	resizeFrame = requestAnimationFrame(placeGames);
+});
+
+const API_LIMIT_HINT = 'This error could be due to Steam API limits. Try providing your own key on the home page.';
+const createApiKeyHelpAction = () => ({
+	label: 'Use your own Steam API key',
+	href: '/',
+	external: false,
+});
+
+const showError = (input, link) => {
+	const config =
+		typeof input === 'string' ? { body: input } : { ...(input ?? {}) };
+
+	if (link?.href) {
+		const actions = Array.isArray(config.actions) ? [...config.actions] : [];
+		actions.push({
+			label: link.label ?? link.href,
+			href: link.href,
+			external: link.external ?? true,
+		});
+		config.actions = actions;
+		if (link.afterText) {
+			const appended = link.afterText.trim();
+			config.hint = config.hint ? `${config.hint} ${appended}` : appended;
+		}
+	}
+
+	const logMessage =
+		typeof input === 'string'
+			? input
+			: config.body ?? config.title ?? 'Unknown error';
+	console.error(logMessage);
+	statusEl?.classList.add('error');
+	statusEl?.classList.remove('hidden');
+	if (!statusEl) {
+		setDownloadState('disabled');
+		return;
+	}
+
+	statusEl.classList.add('has-message');
+	statusEl.textContent = '';
+
+	const card = document.createElement('div');
+	card.className = 'status-card';
+
+	const titleText =
+		typeof config.title === 'string' ? config.title.trim() : '';
+	if (titleText) {
+		const titleEl = document.createElement('h2');
+		titleEl.className = 'status-card-title';
+		titleEl.textContent = titleText;
+		card.append(titleEl);
+	}
+
+	let bodyText =
+		typeof config.body === 'string' ? config.body.trim() : '';
+	if (!titleText && !bodyText && logMessage) {
+		bodyText = logMessage.trim();
+	}
+	if (bodyText) {
+		const bodyEl = document.createElement('p');
+		bodyEl.className = 'status-card-body';
+		bodyEl.textContent = bodyText;
+		card.append(bodyEl);
+	}
+
+	const hintText =
+		typeof config.hint === 'string' ? config.hint.trim() : '';
+	if (hintText) {
+		const hintEl = document.createElement('p');
+		hintEl.className = 'status-card-hint';
+		hintEl.textContent = hintText;
+		card.append(hintEl);
+	}
+
+	const resolvedActions = Array.isArray(config.actions)
+		? config.actions.filter((action) => {
+			if (!action || typeof action !== 'object') {
+				return false;
+			}
+			const label =
+				typeof action.label === 'string' ? action.label.trim() : '';
+			const href =
+				typeof action.href === 'string' ? action.href.trim() : '';
+			return Boolean(label && href);
+		})
+		: [];
+
+	if (resolvedActions.length) {
+		const actionsEl = document.createElement('div');
+		actionsEl.className = 'status-card-actions';
+		for (const action of resolvedActions) {
+			const actionLink = document.createElement('a');
+			actionLink.className = 'status-card-button';
+			actionLink.href = String(action.href).trim();
+			actionLink.textContent = String(action.label).trim();
+			const isExternal = action.external ?? true;
+			if (isExternal) {
+				actionLink.target = '_blank';
+				actionLink.rel = 'noreferrer';
+			}
+			actionsEl.append(actionLink);
+		}
+		card.append(actionsEl);
+	}
+
+	statusEl.append(card);
+	setDownloadState('disabled');
+};
+
+const readLastVisit = (steamId) => {
+	try {
+		const stored = Number(localStorage.getItem(`${LAST_VISIT_STORAGE_PREFIX}${steamId}`));
+		return Number.isFinite(stored) && stored > 0 ? stored : null;
+	} catch {
+		return null;
+	}
+};
+
+const writeLastVisit = (steamId, timestamp) => {
+	try {
+		localStorage.setItem(`${LAST_VISIT_STORAGE_PREFIX}${steamId}`, String(timestamp));
+	} catch {
+		// Storage can be unavailable in private browsing; the badge is optional.
+	}
+};
+
+const renderHistorySummary = (report) => {
+	if (!historySummaryEl) {
+		return;
+	}
+
+	const totalDelta = Number(report?.totalDeltaMinutes ?? 0);
+	if (!report?.from || !Number.isFinite(totalDelta) || totalDelta <= 0) {
+		historySummaryEl.hidden = true;
+		historySummaryEl.replaceChildren();
+		return;
+	}
+
+	const hours = totalDelta / 60;
+	const hoursText = hours.toLocaleString(undefined, {
+		maximumFractionDigits: hours < 10 ? 1 : 0,
+	});
+	const gained = document.createElement('strong');
+	gained.textContent = `+${hoursText} hrs`;
+	const parts = [gained, document.createTextNode(' played since your last visit')];
+
+	const topGame = Array.isArray(report.games) ? report.games[0] : null;
+	if (topGame && topGame.deltaMinutes > 0) {
+		const topHours = topGame.deltaMinutes / 60;
+		const topName = topGame.name || `App ${topGame.appid}`;
+		parts.push(
+			document.createTextNode(
+				` — mostly ${topName} (${topHours.toLocaleString(undefined, {
+					maximumFractionDigits: topHours < 10 ? 1 : 0,
+				})} hrs)`,
+			),
+		);
+	}
+
+	historySummaryEl.replaceChildren(...parts);
+	historySummaryEl.hidden = false;
+};
+
+const loadHistorySummary = async (steamId) => {
+	const lastVisit = readLastVisit(steamId);
+	writeLastVisit(steamId, Math.floor(Date.now() / 1000));
+	if (!lastVisit) {
+		return;
+	}
+
+	try {
+		const url = buildApiUrl(
+			`${API_ENDPOINT_BASE}${encodeURIComponent(steamId)}/history?from=${lastVisit}`,
+		);
+		const response = await fetch(url, {
+			headers: {
+				Accept: 'application/json',
+			},
+		});
+		if (!response.ok) {
+			throw new Error('Failed to load playtime history.');
+		}
+		renderHistorySummary(await response.json());
+	} catch (error) {
+		console.warn('Skipping playtime history summary:', error);
+	}
+};
+
+const formatDataAge = (seconds) => {
+	const hours = Math.floor(seconds / 3600);
+	if (hours >= 48) {
+		return `${Math.floor(hours / 24)} days ago`;
+	}
+	if (hours >= 1) {
+		return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+	}
+	const minutes = Math.max(1, Math.floor(seconds / 60));
+	return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+};
+
+const setDataAge = (payload) => {
+	if (!dataAgeEl) {
+		return;
+	}
+	const ageSeconds = Number(payload?.ageSeconds);
+	const stale = payload?.stale === true;
+	// Fresh fetches need no badge; only call out data that has been cached a while.
+	if (!Number.isFinite(ageSeconds) || (!stale && ageSeconds < 3600)) {
+		dataAgeEl.hidden = true;
+		return;
+	}
+	dataAgeEl.textContent = stale
+		? `Data from ${formatDataAge(ageSeconds)} · refreshing in the background`
+		: `Data from ${formatDataAge(ageSeconds)}`;
+	dataAgeEl.dataset.stale = String(stale);
+	dataAgeEl.hidden = false;
+};
+
+const applyPlaytimePayload = (payload) => {
+	if (!payload || typeof payload !== 'object') {
+		renderGames([]);
+		return;
+	}
+
+	const canonicalId =
+		typeof payload.steamID === 'string' && isSteamId64(payload.steamID)
+			? payload.steamID
+			: null;
+	if (canonicalId) {
+		resolvedSteamId64 = canonicalId;
+	}
+
+	const resolvedFrom =
+		typeof payload.resolvedFrom === 'string'
+			? payload.resolvedFrom.trim()
+			: '';
+	const nextDisplay =
+		resolvedFrom ||
+		resolvedSteamId64 ||
+		displayIdentifier ||
+		submittedIdentifier ||
+		'';
+	if (nextDisplay && nextDisplay !== displayIdentifier) {
+		displayIdentifier = nextDisplay;
+		updateDocumentTitle(displayIdentifier);
+	} else if (!displayIdentifier && nextDisplay) {
+		displayIdentifier = nextDisplay;
+		updateDocumentTitle(displayIdentifier);
+	}
+
+	const personaName =
+		typeof payload.personaName === 'string'
+			? payload.personaName.trim()
+			: '';
+	if (personaName) {
+		updateDocumentTitle(personaName);
+	}
+
+	setRefreshAvailableAt(payload.refreshAvailableAt);
+	setDataAge(payload);
+
+	const games = Array.isArray(payload.games) ? payload.games : [];
+	renderGames(games);
+};
+
+if (!submittedIdentifier) {
+	showError({
+		title: 'Steam profile required',
+		body: 'Add a SteamID or vanity username to the URL (e.g. /76561198000000000 or /obviyus) to view your collage.',
+		hint: API_LIMIT_HINT,
+		actions: [createApiKeyHelpAction()],
+	});
+} else {
+	try {
+		showLoader();
+		const lookupIdentifier = submittedIdentifier;
+		const url = buildApiUrl(`${API_ENDPOINT_BASE}${encodeURIComponent(lookupIdentifier)}`);
+
+		const response = await fetch(url, {
+			headers: {
+				Accept: 'application/json',
+			},
+		});
+
+		if (!response.ok) {
+			const errorBody = await response.json().catch(() => ({}));
+			const clientError = new Error(
+				typeof errorBody?.error === 'string'
+					? errorBody.error
+					: 'Failed to load playtime data.',
+			);
+			Object.assign(clientError, {
+				status: response.status,
+				code: typeof errorBody?.code === 'string' ? errorBody.code : null,
+				guidance: typeof errorBody?.guidance === 'string' ? errorBody.guidance : null,
+			});
+			throw clientError;
+		}
+
+		const payload = await response.json();
+		applyPlaytimePayload(payload);
+		if (resolvedSteamId64) {
+			void loadHistorySummary(resolvedSteamId64);
+		}
+	} catch (error) {
+		console.error(error);
+		const status =
+			typeof error === 'object' && error !== null && 'status' in error
+				? Number(error.status)
+				: null;
+		const errorCode =
+			typeof error === 'object' && error !== null && 'code' in error ? error.code : null;
+		const errorMessage = error instanceof Error ? error.message : '';
+		const normalizedMessage = errorMessage.toLowerCase();
+		let errorConfig = {
+			title: 'Unable to load playtime data',
+			body: "We couldn't load the playtime data.",
+			hint: "If this is your profile, make sure your Steam Game Details privacy is set to Public and try again. " + API_LIMIT_HINT,
+			actions: [createApiKeyHelpAction()],
+		};
+
+		if (status === 404) {
+			errorConfig = {
+				title: 'Profile not found',
+				body: "We couldn't find a Steam profile with that identifier.",
+				hint: 'Use the ID from your profile URL (steamcommunity.com/id/... or /profiles/...) or the full steamID64.',
+				actions: [
+					{
+						label: 'Open steamid.io',
+						href: 'https://steamid.io/lookup',
+						external: true,
+					},
+				],
+			};
+		} else if (errorCode === 'profile_private') {
+			errorConfig = {
+				title: 'Profile is private',
+				body: errorMessage || 'This Steam profile keeps its game details private.',
+				hint: error.guidance || 'Update privacy settings to Public and try again.',
+				actions: [createApiKeyHelpAction()],
+			};
+		} else if (
+			errorMessage &&
+			!normalizedMessage.includes('failed to load playtime data') &&
+			!normalizedMessage.includes('unable to fetch playtime data')
+		) {
+			errorConfig = {
+				title: 'Unable to load playtime data',
+				body: errorMessage,
+				hint: API_LIMIT_HINT,
+				actions: [createApiKeyHelpAction()],
+			};
+		}
+
+		showError(errorConfig);
+	}
+}